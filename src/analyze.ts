@@ -0,0 +1,477 @@
+import type {
+  JsonSchema,
+  PreflightOptions,
+  SchemaAnalysis,
+  SchemaInput,
+  SchemaWarning,
+  SchemaWarningSeverity,
+} from './types';
+import { SchemaAnalysisError } from './errors';
+import { isZodSchema, toJsonSchema } from './utils';
+import { zodDef, type ZodSchema } from './validation';
+
+/**
+ * Number of required leaf fields above which the fallback risk is high.
+ */
+export const MAX_RECOMMENDED_REQUIRED_FIELDS = 15;
+
+const SEVERITY_ORDER: Record<SchemaWarningSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Zod types that JSON Schema (and therefore the API) cannot represent.
+ */
+const UNSUPPORTED_ZOD_TYPES: Record<string, string> = {
+  ZodFunction: 'functions',
+  ZodPromise: 'promises',
+  ZodSymbol: 'symbols',
+  ZodVoid: 'void',
+  ZodUndefined: 'undefined',
+  ZodNever: 'never',
+  ZodNaN: 'NaN',
+};
+
+/**
+ * Zod types that are sent to the API, but come back in a different shape.
+ */
+const LOSSY_ZOD_TYPES: Record<string, string> = {
+  ZodDate: 'Dates are sent as ISO strings and returned as strings; use `validate: \'coerce\'` or `z.string()`',
+  ZodBigInt: 'BigInts are returned as JSON numbers; use `z.number()`',
+  ZodMap: 'Maps are returned as arrays of entries; use `z.record()` or an array of objects',
+  ZodSet: 'Sets are returned as arrays; use `z.array()`',
+  ZodAny: 'The field has no type, so the API cannot tell what to extract; use a concrete type',
+  ZodUnknown: 'The field has no type, so the API cannot tell what to extract; use a concrete type',
+  ZodLazy: 'Recursive schemas are cut off at the recursion point',
+  ZodIntersection: 'Intersections are sent as `allOf`, which the API merges loosely; use `.merge()` or `.extend()`',
+};
+
+/**
+ * Field names the verification rules expect, keyed by common alternatives.
+ */
+const VERIFICATION_FIELD_ALIASES: Record<string, string> = {
+  total_amount: 'total',
+  grand_total: 'total',
+  invoice_total: 'total',
+  amount_due: 'total',
+  total_due: 'total',
+  sub_total: 'subtotal',
+  net_total: 'subtotal',
+  net_amount: 'subtotal',
+  vat: 'tax',
+  vat_amount: 'tax',
+  tax_amount: 'tax',
+  total_tax: 'tax',
+  sales_tax: 'tax',
+  gst: 'tax',
+  vat_rate: 'tax_rate',
+  tax_percent: 'tax_rate',
+  tax_percentage: 'tax_rate',
+  items: 'line_items',
+  lines: 'line_items',
+  line_item: 'line_items',
+  products: 'line_items',
+  paid: 'amount_paid',
+  paid_amount: 'amount_paid',
+  total_paid: 'amount_paid',
+};
+
+/**
+ * Line item field names the verification rules expect, keyed by common alternatives.
+ */
+const LINE_ITEM_FIELD_ALIASES: Record<string, string> = {
+  qty: 'quantity',
+  units: 'quantity',
+  price: 'unit_price',
+  unit_cost: 'unit_price',
+  rate: 'unit_price',
+  total: 'amount',
+  line_total: 'amount',
+  total_amount: 'amount',
+};
+
+/**
+ * Lints a schema before extraction.
+ *
+ * Reports Zod constructs the API cannot use (transforms, refinements, preprocess, custom
+ * types), required fields without `.describe()`, required arrays nested inside arrays,
+ * unions the API cannot extract reliably, and field names that will not match the
+ * verification rules. Also estimates the risk of triggering the fallback model from the
+ * number of required fields.
+ *
+ * Pass `jsonSchema` when the schema is sent with the `jsonSchema` extract option. With a Zod 4
+ * schema, `await preloadZod4()` once first.
+ *
+ * @example
+ * ```ts
+ * const { warnings, fallbackRisk } = analyzeSchema(schema);
+ * for (const warning of warnings) {
+ *   console.warn(`[${warning.severity}] ${warning.field}: ${warning.message}`);
+ * }
+ * ```
+ */
+export function analyzeSchema(schema: SchemaInput, jsonSchema?: JsonSchema): SchemaAnalysis {
+  const warnings: SchemaWarning[] = [];
+
+  if (isZodSchema(schema)) {
+    walkZod(schema, '$', warnings);
+  }
+
+  const requiredFields: string[] = [];
+  const optionalFields: string[] = [];
+  walkJsonSchema(toJsonSchema(schema, jsonSchema), {
+    path: '$',
+    required: true,
+    arrayDepth: 0,
+    parentArray: null,
+    warnings,
+    requiredFields,
+    optionalFields,
+  });
+
+  if (requiredFields.length > MAX_RECOMMENDED_REQUIRED_FIELDS) {
+    warnings.push({
+      code: 'MANY_REQUIRED_FIELDS',
+      severity: 'warning',
+      field: '$',
+      message:
+        `${requiredFields.length} required fields: a missing or low-confidence value in any of them ` +
+        `triggers the fallback model. Mark fields that may be absent with .optional()`,
+    });
+  }
+
+  const fallbackRisk =
+    requiredFields.length > MAX_RECOMMENDED_REQUIRED_FIELDS
+      ? 'high'
+      : requiredFields.length > MAX_RECOMMENDED_REQUIRED_FIELDS / 2
+        ? 'medium'
+        : 'low';
+
+  return {
+    // Stable sort keeps findings of the same severity in schema order
+    warnings: warnings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]),
+    requiredFields,
+    optionalFields,
+    fallbackRisk,
+  };
+}
+
+/**
+ * Runs the pre-flight check configured by the `preflight` extract option.
+ * Throws a `SchemaAnalysisError` if any finding reaches the failing severity.
+ * @internal
+ */
+export function runPreflight(
+  schema: SchemaInput,
+  preflight: boolean | PreflightOptions | undefined,
+  jsonSchema?: JsonSchema
+): void {
+  if (!preflight) return;
+
+  const { failOn = 'error', onWarnings } = preflight === true ? {} : preflight;
+  const { warnings } = analyzeSchema(schema, jsonSchema);
+
+  if (warnings.length > 0) {
+    onWarnings?.(warnings);
+  }
+  if (failOn === 'never') return;
+
+  const failing = warnings.filter(
+    (warning) => SEVERITY_ORDER[warning.severity] <= SEVERITY_ORDER[failOn]
+  );
+  if (failing.length > 0) {
+    const summary = failing
+      .slice(0, 3)
+      .map((warning) => `${warning.field}: ${warning.message}`)
+      .join('; ');
+    const more = failing.length > 3 ? ` (and ${failing.length - 3} more)` : '';
+    throw new SchemaAnalysisError(`Schema pre-flight check failed: ${summary}${more}`, failing);
+  }
+}
+
+/**
+ * Walks a Zod schema for constructs that are dropped or changed by the JSON Schema conversion.
+ */
+function walkZod(schema: ZodSchema, path: string, warnings: SchemaWarning[]): void {
+  const def = zodDef(schema);
+  const typeName = def.typeName ?? '';
+
+  if (def.refined) {
+    warnings.push(notSentToApi('.refine()/.superRefine()', path));
+  }
+
+  if (typeName in UNSUPPORTED_ZOD_TYPES) {
+    warnings.push({
+      code: 'UNSUPPORTED_TYPE',
+      severity: 'error',
+      field: path,
+      message: `Zod ${UNSUPPORTED_ZOD_TYPES[typeName]} cannot be represented in JSON Schema and are dropped`,
+    });
+    return;
+  }
+
+  if (typeName in LOSSY_ZOD_TYPES) {
+    warnings.push({
+      code: typeName === 'ZodAny' || typeName === 'ZodUnknown' ? 'UNSUPPORTED_TYPE' : 'LOSSY_CONSTRUCT',
+      severity: 'warning',
+      field: path,
+      message: LOSSY_ZOD_TYPES[typeName],
+    });
+  }
+
+  switch (typeName) {
+    case 'ZodEffects': {
+      const effect = def.effect?.type ?? 'refinement';
+      const method =
+        effect === 'refinement'
+          ? '.refine()/.superRefine()'
+          : effect === 'preprocess'
+            ? 'z.preprocess()'
+            : '.transform()';
+      warnings.push(notSentToApi(method, path));
+      if (def.schema) walkZod(def.schema, path, warnings);
+      return;
+    }
+    case 'ZodPipeline': {
+      // Zod 4 implements .transform() as a pipe into a transform
+      const isTransform = def.out !== undefined && zodDef(def.out).typeName === 'ZodEffects';
+      warnings.push(notSentToApi(isTransform ? '.transform()' : '.pipe()', path));
+      if (def.in) walkZod(def.in, path, warnings);
+      return;
+    }
+    case 'ZodObject':
+      for (const [key, value] of Object.entries(def.shape?.() ?? {})) {
+        walkZod(value, `${path}.${key}`, warnings);
+      }
+      return;
+    case 'ZodArray':
+    case 'ZodSet':
+      if (def.type) walkZod(def.type, `${path}[*]`, warnings);
+      return;
+    case 'ZodRecord':
+    case 'ZodMap':
+      if (def.valueType) walkZod(def.valueType, `${path}.*`, warnings);
+      return;
+    case 'ZodTuple':
+      def.items?.forEach((item, i) => walkZod(item, `${path}[${i}]`, warnings));
+      return;
+    case 'ZodUnion':
+    case 'ZodDiscriminatedUnion': {
+      const options = def.options instanceof Map ? [...def.options.values()] : (def.options ?? []);
+      options.forEach((option) => walkZod(option, path, warnings));
+      return;
+    }
+    case 'ZodIntersection':
+      if (def.left) walkZod(def.left, path, warnings);
+      if (def.right) walkZod(def.right, path, warnings);
+      return;
+    case 'ZodOptional':
+    case 'ZodNullable':
+    case 'ZodDefault':
+    case 'ZodCatch':
+    case 'ZodReadonly':
+      if (def.innerType) walkZod(def.innerType, path, warnings);
+      return;
+    case 'ZodBranded':
+      if (def.type) walkZod(def.type, path, warnings);
+      return;
+  }
+}
+
+function notSentToApi(method: string, path: string): SchemaWarning {
+  return {
+    code: 'LOSSY_CONSTRUCT',
+    severity: 'warning',
+    field: path,
+    message:
+      `${method} is not sent to the API, which extracts the input type only. ` +
+      `Use validate: 'strict' to apply it to the result`,
+  };
+}
+
+interface JsonWalkState {
+  path: string;
+  /** Whether the field and all of its parents are required. */
+  required: boolean;
+  /** Number of arrays the field is nested in. */
+  arrayDepth: number;
+  /** Name of the closest enclosing array property, used to recognise line items. */
+  parentArray: string | null;
+  warnings: SchemaWarning[];
+  requiredFields: string[];
+  optionalFields: string[];
+}
+
+/**
+ * Walks the JSON Schema sent to the API for structural findings.
+ */
+function walkJsonSchema(schema: JsonSchema, state: JsonWalkState): void {
+  const node = unwrapNullable(schema);
+  const branches = (node.anyOf ?? node.oneOf) as JsonSchema[] | undefined;
+
+  if (branches) {
+    checkUnion(branches, state);
+    return;
+  }
+
+  if (isType(node, 'object') && isRecord(node.properties)) {
+    const required = new Set(Array.isArray(node.required) ? (node.required as string[]) : []);
+    // Verification rules only read top-level fields and the items of the line items array
+    const isTopLevel = state.path === '$';
+    const isLineItem =
+      state.parentArray !== null &&
+      state.path === `$.${state.parentArray}[*]` &&
+      isLineItemsName(state.parentArray);
+    const keys = Object.keys(node.properties);
+
+    for (const [key, child] of Object.entries(node.properties as Record<string, JsonSchema>)) {
+      const path = `${state.path}.${key}`;
+      const childRequired = state.required && required.has(key);
+
+      if (isTopLevel || isLineItem) {
+        checkFieldName(key, keys, path, isLineItem, state);
+      }
+
+      if (childRequired && typeof child.description !== 'string') {
+        state.warnings.push({
+          code: 'MISSING_DESCRIPTION',
+          severity: 'warning',
+          field: path,
+          message: 'Required field without .describe(): a description improves accuracy and avoids needless fallback',
+        });
+      }
+
+      walkJsonSchema(child, {
+        ...state,
+        path,
+        required: childRequired,
+        parentArray: isType(unwrapNullable(child), 'array') ? key : state.parentArray,
+      });
+    }
+    return;
+  }
+
+  if (isType(node, 'array')) {
+    if (state.required && state.arrayDepth > 0) {
+      state.warnings.push({
+        code: 'NESTED_REQUIRED_ARRAY',
+        severity: 'warning',
+        field: state.path,
+        message:
+          'Required array nested inside another array: every item must have it, so one missing list ' +
+          'triggers fallback. Mark it .optional() or flatten the structure',
+      });
+    }
+    if (isRecord(node.items)) {
+      walkJsonSchema(node.items as JsonSchema, {
+        ...state,
+        path: `${state.path}[*]`,
+        arrayDepth: state.arrayDepth + 1,
+      });
+    }
+    return;
+  }
+
+  if (state.path !== '$') {
+    (state.required ? state.requiredFields : state.optionalFields).push(state.path);
+  }
+}
+
+/**
+ * Flags unions whose branches the API cannot tell apart.
+ * Unions of primitives, and of objects sharing a literal discriminator, are supported.
+ */
+function checkUnion(branches: JsonSchema[], state: JsonWalkState): void {
+  const objects = branches.filter((branch) => isType(branch, 'object'));
+  const others = branches.filter((branch) => !isType(branch, 'object') && !isType(branch, 'null'));
+
+  if (objects.length > 0 && others.length > 0) {
+    state.warnings.push({
+      code: 'UNSUPPORTED_UNION',
+      severity: 'error',
+      field: state.path,
+      message: 'Union of objects and primitives: the API cannot choose a shape. Use separate optional fields',
+    });
+  } else if (objects.length > 1 && !hasDiscriminator(objects)) {
+    state.warnings.push({
+      code: 'UNSUPPORTED_UNION',
+      severity: 'error',
+      field: state.path,
+      message:
+        'Union of objects without a literal discriminator: the API cannot choose a shape. ' +
+        'Use z.discriminatedUnion() or a single object with optional fields',
+    });
+  } else if (others.some((branch) => isType(branch, 'array'))) {
+    state.warnings.push({
+      code: 'UNSUPPORTED_UNION',
+      severity: 'warning',
+      field: state.path,
+      message: 'Union containing arrays: the API may return either shape. Prefer a single array type',
+    });
+  }
+
+  // Report required fields once, from the first branch
+  const first = branches.find((branch) => !isType(branch, 'null'));
+  if (first) {
+    walkJsonSchema(first, state);
+  }
+}
+
+/**
+ * Suggests the field names the verification rules look for.
+ */
+function checkFieldName(
+  key: string,
+  siblings: string[],
+  path: string,
+  isLineItem: boolean,
+  state: JsonWalkState
+): void {
+  const snake = key.replace(/([a-z\d])([A-Z])/g, '$1_$2').toLowerCase();
+  const aliases = isLineItem ? LINE_ITEM_FIELD_ALIASES : VERIFICATION_FIELD_ALIASES;
+  const expected = aliases[snake] ?? (Object.values(aliases).includes(snake) ? snake : undefined);
+
+  if (!expected || expected === key || siblings.includes(expected)) return;
+
+  state.warnings.push({
+    code: 'VERIFICATION_FIELD_NAME',
+    severity: 'info',
+    field: path,
+    message: `Verification rules look for "${expected}"; rename "${key}" or pass custom field paths to the rules`,
+  });
+}
+
+function isLineItemsName(name: string): boolean {
+  const snake = name.replace(/([a-z\d])([A-Z])/g, '$1_$2').toLowerCase();
+  return snake === 'line_items' || VERIFICATION_FIELD_ALIASES[snake] === 'line_items';
+}
+
+function hasDiscriminator(objects: JsonSchema[]): boolean {
+  const keys = Object.keys((objects[0].properties ?? {}) as Record<string, unknown>);
+  return keys.some((key) =>
+    objects.every((object) => {
+      const property = (object.properties as Record<string, JsonSchema> | undefined)?.[key];
+      return (
+        property !== undefined &&
+        ('const' in property || (Array.isArray(property.enum) && property.enum.length === 1))
+      );
+    })
+  );
+}
+
+/**
+ * Unwraps `anyOf: [T, { type: 'null' }]`, which is how nullable objects are converted.
+ */
+function unwrapNullable(schema: JsonSchema): JsonSchema {
+  const branches = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined;
+  if (!branches) return schema;
+  const nonNull = branches.filter((branch) => !isType(branch, 'null'));
+  return nonNull.length === 1 && nonNull.length < branches.length ? nonNull[0] : schema;
+}
+
+function isType(schema: JsonSchema, type: string): boolean {
+  if (type === 'object' && schema.type === undefined && isRecord(schema.properties)) return true;
+  return Array.isArray(schema.type) ? schema.type.includes(type) : schema.type === type;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,126 @@
+import type { CacheConfig, CacheEntry, CacheStore, JsonSchema } from './types';
+import { DEFAULT_CONFIDENCE_THRESHOLD } from './types';
+import { ValidationError } from './errors';
+import { isNode, sha256Hex, sha256HexOfBlob, stableStringify } from './utils';
+
+/**
+ * Default maximum number of entries kept by `memoryCache`.
+ */
+export const DEFAULT_MEMORY_CACHE_SIZE = 1000;
+
+/**
+ * In-memory cache store that evicts the least recently used entry when full.
+ * Entries live as long as the process.
+ *
+ * @example
+ * ```ts
+ * const client = new Parsefy({ cache: memoryCache({ maxEntries: 500 }) });
+ * ```
+ */
+export function memoryCache(options: { maxEntries?: number } = {}): CacheStore {
+  const { maxEntries = DEFAULT_MEMORY_CACHE_SIZE } = options;
+  if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+    throw new ValidationError('maxEntries must be a positive integer');
+  }
+
+  // Map iteration follows insertion order, so the first key is the least recently used
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Filesystem cache store writing one JSON file per entry to `dir` (Node.js only).
+ * Survives restarts, so a crashed pipeline can be re-run without re-billing documents.
+ *
+ * @example
+ * ```ts
+ * const client = new Parsefy({ cache: { store: fileCache('./.parsefy-cache'), ttl: 7 * 86_400_000 } });
+ * ```
+ */
+export function fileCache(dir: string): CacheStore {
+  if (!isNode()) {
+    throw new ValidationError('fileCache is only supported in Node.js');
+  }
+
+  const entryPath = async (key: string) => (await import('path')).join(dir, `${key}.json`);
+
+  return {
+    async get(key) {
+      const fs = await import('fs');
+      try {
+        return JSON.parse(await fs.promises.readFile(await entryPath(key), 'utf8')) as CacheEntry;
+      } catch {
+        // Missing or unreadable entries are cache misses
+        return undefined;
+      }
+    },
+    async set(key, entry) {
+      const fs = await import('fs');
+      const file = await entryPath(key);
+      await fs.promises.mkdir(dir, { recursive: true });
+      // Write then rename, so a crash never leaves a truncated entry behind
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmp, JSON.stringify(entry));
+      await fs.promises.rename(tmp, file);
+    },
+    async delete(key) {
+      const fs = await import('fs');
+      await fs.promises.rm(await entryPath(key), { force: true });
+    },
+  };
+}
+
+/**
+ * Normalizes the `cache` client option.
+ * @internal
+ */
+export function resolveCacheConfig(
+  cache: CacheStore | CacheConfig | undefined
+): { store: CacheStore; ttl?: number } | null {
+  if (!cache) return null;
+  const config = 'store' in cache ? cache : { store: cache };
+  if (config.ttl !== undefined && (!Number.isFinite(config.ttl) || config.ttl <= 0)) {
+    throw new ValidationError('cache ttl must be a positive number of milliseconds');
+  }
+  return config;
+}
+
+/**
+ * Computes the cache key of an extraction from everything that affects its result.
+ * @internal
+ */
+export async function computeCacheKey(
+  file: File | Blob,
+  jsonSchema: JsonSchema,
+  options: { confidenceThreshold?: number; enableVerification?: boolean }
+): Promise<string> {
+  const fileHash = await sha256HexOfBlob(file);
+  const parts = [
+    'v1',
+    fileHash,
+    stableStringify(jsonSchema),
+    String(options.confidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD),
+    String(options.enableVerification ?? false),
+  ];
+  return sha256Hex(new TextEncoder().encode(parts.join('\n')));
+}
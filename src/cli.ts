@@ -0,0 +1,324 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Parsefy } from './client';
+import { ParsefyError, APIError, ValidationError } from './errors';
+import type { ExtractResult, SchemaInput } from './types';
+import { DEFAULT_BATCH_CONCURRENCY, DEFAULT_CONFIDENCE_THRESHOLD } from './types';
+import { isStandardSchema, isZodSchema } from './utils';
+
+const USAGE = `Usage: parsefy extract <files...> --schema <path> [options]
+
+Extract structured data from financial documents.
+
+Options:
+  -s, --schema <path>       Zod or Standard Schema module (.ts/.js/.mjs, default or "schema" export)
+                            or JSON Schema file (.json). Required.
+  -t, --threshold <number>  Confidence threshold (0.0 to 1.0). Defaults to ${DEFAULT_CONFIDENCE_THRESHOLD}.
+      --verify              Enable math verification.
+  -o, --out <dir>           Write one JSON result per file to this directory.
+  -c, --concurrency <n>     Documents processed in parallel. Defaults to ${DEFAULT_BATCH_CONCURRENCY}.
+      --api-key <key>       API key. Defaults to the PARSEFY_API_KEY environment variable.
+      --base-url <url>      API base URL.
+      --json                Print raw JSON results instead of tables.
+  -h, --help                Show this help.
+
+Exit codes:
+  0  all documents extracted
+  1  at least one document failed (API, validation or extraction error)
+  2  invalid usage
+`;
+
+/**
+ * Error raised for invalid command-line usage (exit code 2).
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Entry point for the `parsefy` command-line tool.
+ * Returns the process exit code.
+ */
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      schema: { type: 'string', short: 's' },
+      threshold: { type: 'string', short: 't' },
+      verify: { type: 'boolean', default: false },
+      out: { type: 'string', short: 'o' },
+      concurrency: { type: 'string', short: 'c' },
+      'api-key': { type: 'string' },
+      'base-url': { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [command, ...files] = positionals;
+
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return values.help ? 0 : 2;
+  }
+  if (command !== 'extract') {
+    throw new UsageError(`Unknown command: ${command}`);
+  }
+  if (files.length === 0) {
+    throw new UsageError('No input files given');
+  }
+  if (!values.schema) {
+    throw new UsageError('--schema is required');
+  }
+
+  const confidenceThreshold = parseNumberOption('--threshold', values.threshold);
+  if (confidenceThreshold !== undefined && (confidenceThreshold < 0 || confidenceThreshold > 1)) {
+    throw new UsageError('--threshold must be between 0 and 1');
+  }
+  const concurrency = parseNumberOption('--concurrency', values.concurrency);
+  if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+    throw new UsageError('--concurrency must be a positive integer');
+  }
+
+  const schema = await loadSchema(values.schema);
+  const client = new Parsefy({
+    apiKey: values['api-key'],
+    baseUrl: values['base-url'],
+  });
+
+  const outFiles = values.out ? outputNames(files) : [];
+  if (values.out) {
+    await fs.mkdir(values.out, { recursive: true });
+  }
+
+  const results = await client.extractBatch({
+    files,
+    schema,
+    confidenceThreshold,
+    enableVerification: values.verify || undefined,
+    concurrency,
+    onProgress: ({ completed, total, item }) => {
+      const status = item.status === 'fulfilled' && !item.result.error ? 'ok' : 'failed';
+      process.stderr.write(`[${completed}/${total}] ${files[item.index]} ${status}\n`);
+    },
+  });
+
+  let failed = 0;
+  for (const item of results) {
+    const file = files[item.index];
+
+    if (item.status === 'rejected') {
+      failed++;
+      process.stderr.write(`\n${file}: ${describeError(item.error)}\n`);
+      continue;
+    }
+
+    if (item.result.error) {
+      failed++;
+    }
+
+    if (values.out) {
+      const outFile = path.join(values.out, outFiles[item.index]);
+      await fs.writeFile(outFile, `${JSON.stringify(item.result, null, 2)}\n`);
+    }
+
+    if (values.json) {
+      process.stdout.write(`${JSON.stringify({ file, ...item.result }, null, 2)}\n`);
+    } else {
+      process.stdout.write(`\n${formatResult(file, item.result)}`);
+    }
+  }
+
+  return failed > 0 ? 1 : 0;
+}
+
+/**
+ * Loads a schema module (Zod or Standard Schema) or a JSON Schema file.
+ */
+async function loadSchema(schemaPath: string): Promise<SchemaInput> {
+  const resolved = path.resolve(schemaPath);
+
+  if (path.extname(resolved).toLowerCase() === '.json') {
+    let content: string;
+    try {
+      content = await fs.readFile(resolved, 'utf8');
+    } catch {
+      throw new ValidationError(`Schema file not found: ${schemaPath}`);
+    }
+    try {
+      return JSON.parse(content) as SchemaInput;
+    } catch {
+      throw new ValidationError(`Schema file is not valid JSON: ${schemaPath}`);
+    }
+  }
+
+  let mod: Record<string, unknown>;
+  try {
+    mod = await import(pathToFileURL(resolved).href);
+  } catch (error) {
+    const hint = /\.[cm]?ts$/.test(resolved)
+      ? ' TypeScript schemas require Node.js 22.18+ or running through tsx (npx tsx node_modules/.bin/parsefy ...).'
+      : '';
+    throw new ValidationError(
+      `Failed to load schema module ${schemaPath}: ${error instanceof Error ? error.message : String(error)}.${hint}`
+    );
+  }
+
+  // Support `export default schema`, `export const schema`, and CommonJS `module.exports = schema`
+  const defaultExport = mod.default as Record<string, unknown> | undefined;
+  const candidate = mod.schema ?? defaultExport?.schema ?? defaultExport;
+  if (!candidate || !(isZodSchema(candidate as SchemaInput) || isStandardSchema(candidate))) {
+    throw new ValidationError(
+      `Schema module ${schemaPath} must export a Zod or Standard Schema as default or as "schema"`
+    );
+  }
+  return candidate as SchemaInput;
+}
+
+/**
+ * Names the JSON output of each input file after the file name, extension included
+ * (`invoice.pdf.json`). Inputs with the same name get `-2`, `-3`... in input order.
+ */
+function outputNames(files: string[]): string[] {
+  const used = new Set<string>();
+  return files.map((file) => {
+    const base = path.basename(file);
+    let name = `${base}.json`;
+    for (let i = 2; used.has(name.toLowerCase()); i++) {
+      name = `${base}-${i}.json`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+/**
+ * Parses a numeric option, throwing a usage error if it is not a number.
+ */
+function parseNumberOption(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new UsageError(`${name} must be a number`);
+  }
+  return parsed;
+}
+
+/**
+ * Formats an error for the terminal.
+ */
+function describeError(error: unknown): string {
+  if (error instanceof APIError) {
+    return `API error ${error.statusCode}: ${error.message}`;
+  }
+  if (error instanceof ValidationError) {
+    return `Validation error: ${error.message}`;
+  }
+  if (error instanceof ParsefyError) {
+    return `${error.code ? `[${error.code}] ` : ''}${error.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Formats an extraction result as readable tables.
+ */
+function formatResult(file: string, result: ExtractResult<unknown>): string {
+  const { metadata, verification, error } = result;
+  const lines: string[] = [
+    `${file}`,
+    `  confidence ${metadata.confidence_score.toFixed(2)} | credits ${metadata.credits} | ` +
+      `fallback ${metadata.fallback_triggered ? 'yes' : 'no'} | ${metadata.processing_time_ms}ms`,
+  ];
+
+  if (error) {
+    lines.push(`  error: [${error.code}] ${error.message}`);
+  }
+
+  if (metadata.field_confidence.length > 0) {
+    lines.push(
+      '',
+      ...formatTable(
+        ['FIELD', 'SCORE', 'PAGE', 'REASON', 'EVIDENCE'],
+        metadata.field_confidence.map((fc) => [
+          fc.field,
+          fc.score.toFixed(2),
+          String(fc.page),
+          fc.reason,
+          truncate(fc.text, 40),
+        ])
+      )
+    );
+  }
+
+  if (verification) {
+    lines.push(
+      '',
+      `  verification ${verification.status}: ${verification.checks_passed} passed, ` +
+        `${verification.checks_failed} failed, ${verification.cannot_verify_count} cannot verify`
+    );
+    if (verification.checks_run.length > 0) {
+      lines.push(
+        ...formatTable(
+          ['CHECK', 'RESULT', 'EXPECTED', 'ACTUAL', 'DELTA', 'FIELDS'],
+          verification.checks_run.map((check) => [
+            check.type,
+            check.passed ? 'PASSED' : check.status,
+            String(check.expected),
+            String(check.actual),
+            String(check.delta),
+            check.fields.join(', '),
+          ])
+        )
+      );
+    }
+  }
+
+  if (metadata.issues.length > 0) {
+    lines.push('', '  issues:', ...metadata.issues.map((issue) => `    - ${issue}`));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Lays out rows as left-aligned, space-padded columns.
+ */
+function formatTable(header: string[], rows: string[][]): string[] {
+  const widths = header.map((title, i) =>
+    Math.max(title.length, ...rows.map((row) => row[i].length))
+  );
+  const format = (row: string[]) =>
+    `  ${row.map((cell, i) => cell.padEnd(widths[i])).join('  ')}`.trimEnd();
+  return [format(header), ...rows.map(format)];
+}
+
+function truncate(text: string, max: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > max ? `${singleLine.slice(0, max - 1)}…` : singleLine;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    // parseArgs throws Node errors with ERR_PARSE_ARGS_* codes for unknown or malformed options
+    const isArgsError =
+      error instanceof Error && 'code' in error && String(error.code).startsWith('ERR_PARSE_ARGS');
+    if (error instanceof UsageError || isArgsError) {
+      process.stderr.write(`${error.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+      return;
+    }
+    process.stderr.write(`${describeError(error)}\n`);
+    process.exitCode = 1;
+  }
+);
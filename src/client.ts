@@ -1,20 +1,65 @@
-import type { z } from 'zod';
 import type {
   ParsefyConfig,
   ExtractOptions,
+  ExtractBatchOptions,
+  ExtractSplitOptions,
   ExtractResult,
+  ExtractSuccess,
+  BatchItemResult,
+  SplitItemResult,
   RawAPIResponse,
+  FetchLike,
+  ParsefyMiddleware,
+  ParsefyRequest,
+  RetryConfig,
+  SchemaInput,
+  InferSchema,
+  JsonSchema,
+  CacheStore,
+  CacheEntry,
+  CacheMode,
+  ParsefyHooks,
+  ApiRequest,
 } from './types';
-import { DEFAULT_BASE_URL, DEFAULT_TIMEOUT, DEFAULT_CONFIDENCE_THRESHOLD } from './types';
-import { ParsefyError, APIError, ValidationError } from './errors';
+import {
+  DEFAULT_BASE_URL,
+  DEFAULT_TIMEOUT,
+  DEFAULT_BATCH_CONCURRENCY,
+  DEFAULT_RETRY_CONFIG,
+} from './types';
+import {
+  ParsefyError,
+  APIError,
+  ValidationError,
+  ExtractionError,
+  TimeoutError,
+  NetworkError,
+  ResponseParseError,
+  createAPIError,
+} from './errors';
 import {
   isNode,
-  zodSchemaToJsonSchema,
+  loadSchemaConverter,
+  toJsonSchema,
   prepareFile,
-  transformResponse,
+  prepareDocument,
+  buildFormData,
+  parseExtractResponse,
   delay,
   getBackoffDelay,
+  runWithConcurrency,
+  parseRetryAfter,
+  generateIdempotencyKey,
 } from './utils';
+import { validateExtractResult, assertValidatable } from './validation';
+import { runPreflight } from './analyze';
+import { computeCacheKey, resolveCacheConfig } from './cache';
+import { UsageTracker, schemaUsageKey, type UsageLabels } from './usage';
+import { startTrace, type ExtractionTrace } from './hooks';
+import { Jobs } from './jobs';
+import { RateLimiter } from './ratelimit';
+import { remapPages, splitPdf } from './pages';
+import { normalizeExtractResult } from './normalize';
 
 /**
  * Parsefy client for extracting structured data from financial documents.
@@ -55,7 +100,43 @@ export class Parsefy {
   private readonly apiKey: string;
   private readonly baseUrl: string;
   private readonly timeout: number;
-  private readonly maxRetries: number = 3;
+  private readonly headers: Record<string, string>;
+  private readonly fetchFn: FetchLike;
+  private readonly middleware: ParsefyMiddleware[];
+  private readonly retry: typeof DEFAULT_RETRY_CONFIG &
+    Pick<RetryConfig, 'shouldRetry' | 'onRetry'>;
+  private readonly cache: { store: CacheStore; ttl?: number } | null;
+  private readonly hooks: ParsefyHooks[];
+
+  /**
+   * Credits, pages, fallback rate and processing time of this client's extractions.
+   *
+   * @example
+   * ```ts
+   * const { credits, fallbackRate, byTag } = client.usage.snapshot();
+   * ```
+   */
+  readonly usage: UsageTracker;
+
+  /**
+   * Asynchronous extraction jobs, for documents that take longer than the request timeout.
+   *
+   * @example
+   * ```ts
+   * const job = await client.jobs.create({ file, schema, webhookUrl: 'https://example.com/hooks/parsefy' });
+   * ```
+   */
+  readonly jobs: Jobs;
+
+  /**
+   * The rate limiter queueing this client's requests, or null if `rateLimit` is not enabled.
+   *
+   * @example
+   * ```ts
+   * const { queued, averageWaitMs } = client.rateLimiter?.stats() ?? {};
+   * ```
+   */
+  readonly rateLimiter: RateLimiter | null;
 
   /**
    * Creates a new Parsefy client.
@@ -72,6 +153,7 @@ export class Parsefy {
    * const client = new Parsefy({
    *   apiKey: 'pk_your_api_key',
    *   timeout: 120000,
+   *   headers: { 'X-Tenant-Id': 'acme' },
    * });
    *
    * // Using environment variable
@@ -97,6 +179,27 @@ export class Parsefy {
 
     this.baseUrl = config.baseUrl || DEFAULT_BASE_URL;
     this.timeout = config.timeout || DEFAULT_TIMEOUT;
+    this.headers = config.headers || {};
+    // Resolve the global fetch lazily so it can still be replaced after construction
+    this.fetchFn = config.fetch || ((input, init) => fetch(input, init));
+    this.middleware = config.middleware || [];
+    this.retry = { ...DEFAULT_RETRY_CONFIG, ...config.retry };
+    this.cache = resolveCacheConfig(config.cache);
+    this.hooks = config.hooks ? [config.hooks].flat() : [];
+
+    if (config.usage && config.budget) {
+      throw new ValidationError(
+        'Pass the budget to the shared UsageTracker instead of combining `usage` and `budget`'
+      );
+    }
+    this.usage = config.usage || new UsageTracker({ budget: config.budget });
+    this.rateLimiter =
+      config.rateLimit instanceof RateLimiter
+        ? config.rateLimit
+        : config.rateLimit
+          ? new RateLimiter(config.rateLimit === true ? {} : config.rateLimit)
+          : null;
+    this.jobs = new Jobs((request) => this.makeRequestWithRetry(request, null), this.usage);
   }
 
   /**
@@ -110,7 +213,7 @@ export class Parsefy {
   }
 
   /**
-   * Extracts structured data from a financial document using the provided Zod schema.
+   * Extracts structured data from a financial document using the provided schema.
    *
    * ** Billing Warning**: All fields are **required by default**. If a required field
    * returns `null` or falls below the `confidenceThreshold`, the fallback model is triggered,
@@ -138,8 +241,8 @@ export class Parsefy {
    *   enableVerification: true, // Enable math verification
    * });
    *
-   * if (!error && object) {
-   *   console.log(object.invoice_number); // Fully typed!
+   * if (!error) {
+   *   console.log(object.invoice_number); // Fully typed, and non-null once `error` is checked
    *
    *   // Access field-level confidence and evidence
    *   console.log(`Overall confidence: ${metadata.confidence_score}`);
@@ -155,122 +258,523 @@ export class Parsefy {
    *     });
    *   }
    * }
+   *
+   * // Or throw an ExtractionError on failure, and always get the object
+   * const { object: invoice } = await client.extract({ file, schema, throwOnError: true });
    * ```
    */
-  async extract<T extends z.ZodType>(
+  extract<T extends SchemaInput>(
+    options: ExtractOptions<T> & { throwOnError: true }
+  ): Promise<ExtractSuccess<InferSchema<T>>>;
+  extract<T extends SchemaInput>(options: ExtractOptions<T>): Promise<ExtractResult<InferSchema<T>>>;
+  async extract<T extends SchemaInput>(
     options: ExtractOptions<T>
-  ): Promise<ExtractResult<z.infer<T>>> {
-    const { file, schema, confidenceThreshold, enableVerification } = options;
-
-    // Convert Zod schema to JSON Schema
-    const jsonSchema = zodSchemaToJsonSchema(schema);
-
-    // Prepare the file for upload
-    const preparedFile = await prepareFile(file);
-
-    // Build form data
-    const formData = new FormData();
-    formData.append('file', preparedFile);
-    formData.append('output_schema', JSON.stringify(jsonSchema));
-    formData.append(
-      'confidence_threshold',
-      String(confidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD)
+  ): Promise<ExtractResult<InferSchema<T>>> {
+    const {
+      file,
+      schema,
+      jsonSchema: jsonSchemaOverride,
+      confidenceThreshold,
+      enableVerification,
+      validate,
+      throwOnError,
+      idempotencyKey = generateIdempotencyKey(),
+      filename,
+      mimeType,
+      preprocess,
+      pages,
+      preflight,
+      cache,
+      tag,
+      priority,
+    } = options;
+
+    const trace = startTrace(this.hooks, generateIdempotencyKey(), { tag });
+
+    try {
+      const { jsonSchema, labels } = await trace.phase('schema', async () => {
+        // Check the schema before anything is uploaded
+        await loadSchemaConverter(schema);
+        runPreflight(schema, preflight, jsonSchemaOverride);
+
+        // Convert the schema to JSON Schema
+        assertValidatable(schema, validate);
+        const jsonSchema = toJsonSchema(schema, jsonSchemaOverride);
+        return { jsonSchema, labels: { schema: await schemaUsageKey(jsonSchema), tag } };
+      });
+
+      // Prepare the file for upload, keeping only the selected pages
+      const prepared = await trace.phase('prepare', () =>
+        prepareDocument(file, { filename, mimeType, preprocess, pages })
+      );
+
+      // Make the request with retry logic, unless the result is cached
+      const result = await trace.phase('request', async () =>
+        remapPages(
+          await this.extractFile<InferSchema<T>>(
+            prepared.file,
+            jsonSchema,
+            { confidenceThreshold, enableVerification, cache, priority },
+            idempotencyKey,
+            labels,
+            trace
+          ),
+          prepared.pages
+        )
+      );
+      if (throwOnError) {
+        throwIfFailed(result);
+      }
+
+      // Normalize fields built with `normalizers`, then optionally check the object against the schema
+      return trace.complete(
+        await trace.phase('validate', () =>
+          validateExtractResult(normalizeExtractResult(result, schema), schema, validate)
+        )
+      );
+    } catch (error) {
+      throw trace.fail(error);
+    }
+  }
+
+  /**
+   * Extracts structured data from many documents that share a single schema.
+   *
+   * Documents are processed with a bounded concurrency, each one going through the same
+   * validation and rate-limit retry logic as `extract`. A failing document never aborts
+   * the batch: every input gets a settled result, returned in the order of `files`.
+   *
+   * @param options - Batch options including files, schema, and concurrency.
+   * @returns Promise resolving to one settled result per input file.
+   *
+   * @example
+   * ```ts
+   * const results = await client.extractBatch({
+   *   files: ['./invoice-1.pdf', './invoice-2.pdf', './invoice-3.pdf'],
+   *   schema,
+   *   concurrency: 2,
+   *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`),
+   * });
+   *
+   * for (const item of results) {
+   *   if (item.status === 'fulfilled') {
+   *     console.log(item.result.object);
+   *   } else {
+   *     console.error(`File #${item.index} failed: ${item.error.message}`);
+   *   }
+   * }
+   * ```
+   */
+  async extractBatch<T extends SchemaInput>(
+    options: ExtractBatchOptions<T>
+  ): Promise<BatchItemResult<InferSchema<T>>[]> {
+    return this.runBatch(options);
+  }
+
+  /**
+   * Splits a PDF bundle into documents and extracts each one with the same schema.
+   *
+   * The bundle is split client-side, by explicit page ranges, a fixed number of pages per
+   * document, or blank separator pages. Documents are then processed like `extractBatch`,
+   * and `FieldConfidence.page` in each result refers to the pages of the bundle.
+   * Requires the optional `pdf-lib` package.
+   *
+   * @param options - Split options including the bundle, split strategy, and schema.
+   * @returns Promise resolving to one settled result per document, in bundle order.
+   *
+   * @example
+   * ```ts
+   * const invoices = await client.extractSplit({
+   *   file: './vendor-bundle.pdf',
+   *   schema,
+   *   split: { separator: 'blank' },
+   * });
+   *
+   * for (const item of invoices) {
+   *   if (item.status === 'fulfilled') {
+   *     console.log(`Pages ${item.pages.join(', ')}:`, item.result.object);
+   *   }
+   * }
+   * ```
+   */
+  async extractSplit<T extends SchemaInput>(
+    options: ExtractSplitOptions<T>
+  ): Promise<SplitItemResult<InferSchema<T>>[]> {
+    const { file, split, onProgress, ...batchOptions } = options;
+
+    const bundle = await prepareFile(file);
+    if (bundle.type !== 'application/pdf') {
+      throw new ValidationError(`extractSplit only supports PDF documents, not ${bundle.type}`);
+    }
+    const parts = await splitPdf(bundle, split);
+
+    // Report each document against the bundle that was passed in
+    const toSplitItem = (
+      item: BatchItemResult<InferSchema<T>>
+    ): SplitItemResult<InferSchema<T>> => ({ ...item, file, pages: parts[item.index].pages });
+
+    const results = await this.runBatch(
+      {
+        ...batchOptions,
+        files: parts.map((part) => part.content),
+        mimeType: 'application/pdf',
+        onProgress:
+          onProgress &&
+          ((progress) => onProgress({ ...progress, item: toSplitItem(progress.item) })),
+      },
+      parts.map((part) => part.pages)
     );
-    
-    // Add enable_verification if provided
-    if (enableVerification !== undefined) {
-      formData.append('enable_verification', String(enableVerification));
+    return results.map(toSplitItem);
+  }
+
+  /**
+   * Runs a batch. `pageMaps` holds, per file, the pages of the original document it was cut from.
+   */
+  private async runBatch<T extends SchemaInput>(
+    options: ExtractBatchOptions<T>,
+    pageMaps?: number[][]
+  ): Promise<BatchItemResult<InferSchema<T>>[]> {
+    const {
+      files,
+      schema,
+      jsonSchema: jsonSchemaOverride,
+      confidenceThreshold,
+      enableVerification,
+      validate,
+      throwOnError,
+      mimeType,
+      preprocess,
+      pages,
+      preflight,
+      cache,
+      tag,
+      priority,
+      concurrency = DEFAULT_BATCH_CONCURRENCY,
+      onProgress,
+    } = options;
+
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new ValidationError('concurrency must be a positive integer');
     }
 
-    // Make the request with retry logic
-    return this.makeRequestWithRetry<z.infer<T>>(formData);
+    // The schema is shared, so check and convert it only once for the whole batch
+    await loadSchemaConverter(schema);
+    runPreflight(schema, preflight, jsonSchemaOverride);
+    assertValidatable(schema, validate);
+    const jsonSchema = toJsonSchema(schema, jsonSchemaOverride);
+    const usageLabels = { schema: await schemaUsageKey(jsonSchema), tag };
+
+    const results: BatchItemResult<InferSchema<T>>[] = new Array(files.length);
+    let succeeded = 0;
+    let failed = 0;
+
+    await runWithConcurrency(files, concurrency, async (file, index) => {
+      let item: BatchItemResult<InferSchema<T>>;
+      const trace = startTrace(this.hooks, generateIdempotencyKey(), { tag, batchIndex: index });
+      try {
+        const prepared = await trace.phase('prepare', () =>
+          prepareDocument(file, { mimeType, preprocess, pages })
+        );
+        const raw = await trace.phase('request', async () =>
+          remapPages(
+            await this.extractFile<InferSchema<T>>(
+              prepared.file,
+              jsonSchema,
+              { confidenceThreshold, enableVerification, cache, priority },
+              generateIdempotencyKey(),
+              usageLabels,
+              trace
+            ),
+            pageMaps?.[index] ?? prepared.pages
+          )
+        );
+        if (throwOnError) {
+          throwIfFailed(raw);
+        }
+        const result = trace.complete(
+          await trace.phase('validate', () =>
+            validateExtractResult(normalizeExtractResult(raw, schema), schema, validate)
+          )
+        );
+        item = { status: 'fulfilled', index, file, result };
+        succeeded++;
+      } catch (error) {
+        trace.fail(error);
+        item = {
+          status: 'rejected',
+          index,
+          file,
+          error:
+            error instanceof ParsefyError
+              ? error
+              : new ParsefyError(
+                  `Unexpected error: ${error instanceof Error ? error.message : String(error)}`,
+                  'UNKNOWN_ERROR'
+                ),
+        };
+        failed++;
+      }
+
+      results[index] = item;
+      try {
+        onProgress?.({
+          completed: succeeded + failed,
+          total: files.length,
+          succeeded,
+          failed,
+          item,
+        });
+      } catch {
+        // Progress reporting must never cost the batch its settled results
+      }
+    });
+
+    return results;
   }
 
   /**
-   * Makes a request with retry logic for rate limiting.
+   * Extracts a prepared file, serving and storing the result through the cache when configured.
+   * Only successful extractions are cached, so failed ones are retried on the next call.
+   * Every outcome is recorded in `usage`; calls past the hard budget are rejected before uploading.
    */
-  private async makeRequestWithRetry<T>(
-    formData: FormData,
-    attempt = 0
+  private async extractFile<T>(
+    file: File | Blob,
+    jsonSchema: JsonSchema,
+    options: Pick<
+      ExtractOptions<SchemaInput>,
+      'confidenceThreshold' | 'enableVerification' | 'cache' | 'priority'
+    >,
+    idempotencyKey: string,
+    labels: UsageLabels,
+    trace: ExtractionTrace
   ): Promise<ExtractResult<T>> {
+    const request: ApiRequest = {
+      method: 'POST',
+      path: '/v1/extract',
+      body: buildFormData(file, jsonSchema, options),
+      idempotencyKey,
+      priority: options.priority,
+    };
+    const mode: CacheMode = options.cache ?? 'use';
+
+    if (!this.cache || mode === 'bypass') {
+      return this.requestAndRecord<T>(request, labels, trace);
+    }
+
+    const key = await computeCacheKey(file, jsonSchema, options);
+
+    if (mode === 'use') {
+      const entry = await this.readCache(key);
+      if (entry) {
+        const result = entry.result as ExtractResult<T>;
+        const cached: ExtractResult<T> = {
+          ...result,
+          // Nothing was billed for this call
+          metadata: { ...result.metadata, credits: 0 },
+          cache: {
+            hit: true,
+            key,
+            storedAt: new Date(entry.storedAt).toISOString(),
+            originalCredits: result.metadata.credits,
+          },
+        };
+        this.usage.record(cached, labels);
+        return cached;
+      }
+    }
+
+    const result = await this.requestAndRecord<T>(request, labels, trace);
+    if (result.error === null) {
+      await this.writeCache(key, { result, storedAt: Date.now() });
+    }
+    return { ...result, cache: { hit: false, key } };
+  }
+
+  /**
+   * Reserves a credit against the budget, then makes the request and records its outcome in `usage`.
+   */
+  private async requestAndRecord<T>(
+    request: ApiRequest,
+    labels: UsageLabels,
+    trace: ExtractionTrace
+  ): Promise<ExtractResult<T>> {
+    const reserved = this.usage.reserve();
+
+    let result: ExtractResult<T>;
+    try {
+      result = parseExtractResponse<T>(
+        await this.makeRequestWithRetry<RawAPIResponse>(request, trace)
+      );
+    } catch (error) {
+      this.usage.recordFailure(labels, reserved);
+      throw error;
+    }
+    this.usage.record(result, labels, reserved);
+    return result;
+  }
+
+  /**
+   * Reads a cache entry, dropping it if it has expired.
+   * Store failures are treated as misses so the cache never fails an extraction.
+   */
+  private async readCache(key: string): Promise<CacheEntry | undefined> {
+    const { store, ttl } = this.cache!;
+    try {
+      const entry = await store.get(key);
+      if (entry && ttl !== undefined && Date.now() - entry.storedAt > ttl) {
+        await store.delete?.(key);
+        return undefined;
+      }
+      return entry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Writes a cache entry. Store failures are ignored, as the result is already paid for.
+   */
+  private async writeCache(key: string, entry: CacheEntry): Promise<void> {
     try {
-      return await this.makeRequest<T>(formData);
+      await this.cache!.store.set(key, entry);
+    } catch {
+      // The next call with the same document is simply a miss
+    }
+  }
+
+  /**
+   * Makes a request with retry logic for rate limiting and transient failures.
+   * The same idempotency key is sent on every attempt.
+   */
+  private async makeRequestWithRetry<R>(
+    request: ApiRequest,
+    trace: ExtractionTrace | null,
+    attempt = 0
+  ): Promise<R> {
+    try {
+      return await this.makeRequest<R>(request, trace, attempt + 1);
     } catch (error) {
-      // Retry on rate limit (429) with exponential backoff
       if (
-        error instanceof APIError &&
-        error.statusCode === 429 &&
-        attempt < this.maxRetries
+        error instanceof ParsefyError &&
+        attempt < this.retry.maxRetries &&
+        this.isRetryable(error, attempt)
       ) {
-        const backoffMs = getBackoffDelay(attempt);
-        await delay(backoffMs);
-        return this.makeRequestWithRetry<T>(formData, attempt + 1);
+        const delayMs = this.getRetryDelay(error, attempt);
+        const info = { attempt: attempt + 1, delayMs, error, idempotencyKey: request.idempotencyKey };
+        this.retry.onRetry?.(info);
+        trace?.emit('onRetry', info);
+        await delay(delayMs);
+        return this.makeRequestWithRetry<R>(request, trace, attempt + 1);
       }
       throw error;
     }
   }
 
+  /**
+   * Decides whether a failed request should be retried.
+   */
+  private isRetryable(error: ParsefyError, attempt: number): boolean {
+    if (this.retry.shouldRetry) {
+      return this.retry.shouldRetry(error, attempt);
+    }
+    if (error instanceof APIError) {
+      return this.retry.retryableStatusCodes.includes(error.statusCode);
+    }
+    return error.code !== undefined && this.retry.retryableErrorCodes.includes(error.code);
+  }
+
+  /**
+   * Computes the delay before the next attempt, honoring `Retry-After` when enabled.
+   */
+  private getRetryDelay(error: ParsefyError, attempt: number): number {
+    const { baseDelay, maxDelay, respectRetryAfter } = this.retry;
+    if (respectRetryAfter && error instanceof APIError && error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, maxDelay);
+    }
+    return getBackoffDelay(attempt, baseDelay, maxDelay);
+  }
+
   /**
    * Makes the actual HTTP request to the API.
    */
-  private async makeRequest<T>(formData: FormData): Promise<ExtractResult<T>> {
-    const url = `${this.baseUrl}/v1/extract`;
+  private async makeRequest<R>(
+    request: ApiRequest,
+    trace: ExtractionTrace | null,
+    attempt: number
+  ): Promise<R> {
+    const { method, path, body, idempotencyKey, priority, signal } = request;
+    const url = `${this.baseUrl}${path}`;
 
-    // Create abort controller for timeout
+    // Wait for the rate limiter before the timeout starts, so queueing never times a request out
+    const slot = this.rateLimiter ? await this.rateLimiter.acquire(priority) : null;
+
+    // Create abort controller for timeout, also aborted by the caller's signal
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
 
     try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
+      const headers = new Headers(this.headers);
+      headers.set('Authorization', `Bearer ${this.apiKey}`);
+      if (idempotencyKey) {
+        headers.set('Idempotency-Key', idempotencyKey);
+      }
+
+      // Only extractions are traced, and they always send a key
+      trace?.emit('onRequestStart', {
+        attempt,
+        queuedMs: slot?.waitedMs ?? 0,
+        url,
+        idempotencyKey: idempotencyKey!,
+      });
+      const sentAt = Date.now();
+      const response = await this.send({
+        url,
+        init: {
+          method,
+          headers,
+          body,
+          signal: controller.signal,
         },
-        body: formData,
-        signal: controller.signal,
       });
 
       clearTimeout(timeoutId);
+      this.rateLimiter?.update(response.status, response.headers);
+      trace?.emit('onResponse', { attempt, status: response.status, durationMs: Date.now() - sentAt });
 
       // Handle HTTP errors
       if (!response.ok) {
         const errorBody = await this.parseErrorResponse(response);
-        throw new APIError(
+        throw createAPIError(
           errorBody.message || `API request failed with status ${response.status}`,
           response.status,
-          errorBody
+          errorBody,
+          parseRetryAfter(response.headers.get('Retry-After'))
         );
       }
 
       // Parse successful response
-      let rawResponse: RawAPIResponse;
       try {
-        rawResponse = await response.json();
+        return (await response.json()) as R;
       } catch (jsonError) {
-        throw new ParsefyError(
-          'Failed to parse API response as JSON. The API may have returned an invalid response.',
-          'PARSE_ERROR'
-        );
-      }
-
-      // Transform snake_case to camelCase
-      try {
-        return transformResponse<T>(rawResponse);
-      } catch (transformError) {
-        throw new ParsefyError(
-          `Failed to transform API response: ${transformError instanceof Error ? transformError.message : String(transformError)}`,
-          'TRANSFORM_ERROR'
+        throw new ResponseParseError(
+          'Failed to parse API response as JSON. The API may have returned an invalid response.'
         );
       }
     } catch (error) {
       clearTimeout(timeoutId);
 
-      // Handle abort (timeout)
+      // Handle abort (caller's signal, then timeout)
+      if (error instanceof Error && error.name === 'AbortError' && signal?.aborted) {
+        throw new ParsefyError('Request aborted', 'ABORTED');
+      }
       if (error instanceof Error && error.name === 'AbortError') {
-        throw new ParsefyError(
-          `Request timed out after ${this.timeout}ms`,
-          'TIMEOUT'
-        );
+        throw new TimeoutError(`Request timed out after ${this.timeout}ms`, this.timeout);
       }
 
       // Re-throw Parsefy errors
@@ -280,15 +784,15 @@ export class Parsefy {
 
       // Handle fetch network errors (connection refused, DNS failure, etc.)
       if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new ParsefyError(
+        throw new NetworkError(
           `Network error: Unable to connect to the Parsefy API. ${error.message}`,
-          'NETWORK_ERROR'
+          error
         );
       }
 
       // Handle other TypeErrors (might be from JSON parsing or other issues)
       if (error instanceof TypeError) {
-        throw new ParsefyError(
+        throw new ResponseParseError(
           `Type error: ${error.message}. This may indicate an API response format issue.`,
           'TYPE_ERROR'
         );
@@ -299,7 +803,21 @@ export class Parsefy {
         `Unexpected error: ${error instanceof Error ? error.message : String(error)}`,
         'UNKNOWN_ERROR'
       );
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      slot?.release();
+    }
+  }
+
+  /**
+   * Sends a request through the middleware chain, ending with the configured fetch.
+   */
+  private send(request: ParsefyRequest, index = 0): Promise<Response> {
+    const middleware = this.middleware[index];
+    if (!middleware) {
+      return this.fetchFn(request.url, request.init);
     }
+    return middleware(request, (next) => this.send(next, index + 1));
   }
 
   /**
@@ -323,3 +841,11 @@ export class Parsefy {
   }
 }
 
+/**
+ * Throws an `ExtractionError` if the extraction failed.
+ */
+function throwIfFailed<T>(result: ExtractResult<T>): asserts result is ExtractSuccess<T> {
+  if (result.error) {
+    throw new ExtractionError(result.error.message, result.error.code, result.metadata);
+  }
+}
@@ -1,4 +1,10 @@
-import type { ExtractionMetadata } from './types';
+import type {
+  ExtractionMetadata,
+  ExtractResult,
+  SchemaValidationIssue,
+  SchemaWarning,
+  UsageSnapshot,
+} from './types';
 
 /**
  * Base error class for all Parsefy errors.
@@ -26,18 +32,104 @@ export class APIError extends ParsefyError {
   public readonly statusCode: number;
   /** Raw response body, if available. */
   public readonly response?: unknown;
+  /** Delay requested by the server's `Retry-After` header in milliseconds, if present. */
+  public readonly retryAfterMs?: number;
 
-  constructor(message: string, statusCode: number, response?: unknown) {
+  constructor(message: string, statusCode: number, response?: unknown, retryAfterMs?: number) {
     super(message);
     this.name = 'APIError';
     this.statusCode = statusCode;
     this.response = response;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Error thrown when the API rejects the API key (HTTP 401 or 403).
+ * Retrying will not help; check the key and its permissions.
+ */
+export class AuthenticationError extends APIError {
+  constructor(message: string, statusCode: number, response?: unknown, retryAfterMs?: number) {
+    super(message, statusCode, response, retryAfterMs);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Error thrown when the API rate limit was exceeded (HTTP 429).
+ * `retryAfterMs` holds the delay requested by the server, if it sent one.
+ */
+export class RateLimitError extends APIError {
+  constructor(message: string, statusCode: number, response?: unknown, retryAfterMs?: number) {
+    super(message, statusCode, response, retryAfterMs);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Creates the `APIError` subclass matching an HTTP status code.
+ * @internal
+ */
+export function createAPIError(
+  message: string,
+  statusCode: number,
+  response?: unknown,
+  retryAfterMs?: number
+): APIError {
+  if (statusCode === 401 || statusCode === 403) {
+    return new AuthenticationError(message, statusCode, response, retryAfterMs);
+  }
+  if (statusCode === 429) {
+    return new RateLimitError(message, statusCode, response, retryAfterMs);
+  }
+  return new APIError(message, statusCode, response, retryAfterMs);
+}
+
+/**
+ * Error thrown when a request does not complete within the configured `timeout`.
+ * Has code `TIMEOUT`.
+ */
+export class TimeoutError extends ParsefyError {
+  /** The timeout that elapsed, in milliseconds. */
+  public readonly timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number) {
+    super(message, 'TIMEOUT');
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Error thrown when the API cannot be reached (connection refused, DNS failure, ...).
+ * Has code `NETWORK_ERROR`.
+ */
+export class NetworkError extends ParsefyError {
+  /** The underlying error thrown by `fetch`. */
+  public readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message, 'NETWORK_ERROR');
+    this.name = 'NetworkError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * Error thrown when a response from the API cannot be read, e.g. invalid JSON.
+ * Has code `PARSE_ERROR`, `TRANSFORM_ERROR` or `TYPE_ERROR` depending on where reading failed.
+ */
+export class ResponseParseError extends ParsefyError {
+  constructor(message: string, code = 'PARSE_ERROR') {
+    super(message, code);
+    this.name = 'ResponseParseError';
   }
 }
 
 /**
  * Error thrown when document extraction fails (returned in response.error).
  * This is not an HTTP error - the request succeeded but extraction failed.
+ * Only thrown when `throwOnError` is set; otherwise the result is returned with `error` set.
  */
 export class ExtractionError extends ParsefyError {
   /** Metadata about the extraction attempt. */
@@ -52,11 +144,74 @@ export class ExtractionError extends ParsefyError {
 
 /**
  * Error thrown for client-side validation failures.
+ * Has code `MISSING_DEPENDENCY` when an optional package needed by an option is not installed.
  */
 export class ValidationError extends ParsefyError {
-  constructor(message: string) {
-    super(message);
+  constructor(message: string, code?: string) {
+    super(message, code);
     this.name = 'ValidationError';
   }
 }
 
+
+/**
+ * Error thrown when the extracted object does not match the caller's Zod schema.
+ * Only thrown when `validate` is set to `'strict'` or `'coerce'`.
+ */
+export class SchemaValidationError extends ValidationError {
+  /** Every schema issue, mapped back to the JSON path used in `field_confidence`. */
+  public readonly issues: SchemaValidationIssue[];
+  /** The unvalidated extraction result, as returned by the API. */
+  public readonly result: ExtractResult<unknown>;
+
+  constructor(message: string, issues: SchemaValidationIssue[], result: ExtractResult<unknown>) {
+    super(message);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+    this.result = result;
+  }
+}
+
+/**
+ * Error thrown by the pre-flight schema check when the schema has findings at or above
+ * the configured severity. Only thrown when `preflight` is enabled.
+ */
+export class SchemaAnalysisError extends ValidationError {
+  /** Findings at or above the failing severity. */
+  public readonly warnings: SchemaWarning[];
+
+  constructor(message: string, warnings: SchemaWarning[]) {
+    super(message);
+    this.name = 'SchemaAnalysisError';
+    this.warnings = warnings;
+  }
+}
+
+/**
+ * Error thrown when an extraction is rejected because the credit budget is used up.
+ * Nothing is uploaded or billed for the rejected call.
+ */
+export class BudgetExceededError extends ParsefyError {
+  /** The hard limit that was reached. */
+  public readonly limit: number;
+  /** Usage at the time the call was rejected. */
+  public readonly usage: UsageSnapshot;
+
+  constructor(message: string, limit: number, usage: UsageSnapshot) {
+    super(message, 'BUDGET_EXCEEDED');
+    this.name = 'BudgetExceededError';
+    this.limit = limit;
+    this.usage = usage;
+  }
+}
+
+/**
+ * Error thrown by `verifyWebhook` when a webhook's signature is missing, invalid or too old.
+ * Respond with an error status and do not act on the payload.
+ */
+export class WebhookVerificationError extends ParsefyError {
+  constructor(message: string) {
+    super(message, 'WEBHOOK_VERIFICATION_FAILED');
+    this.name = 'WebhookVerificationError';
+  }
+}
@@ -0,0 +1,481 @@
+import type { BatchItemResult, ExtractResult, FieldConfidence, JsonSchema, SchemaInput } from './types';
+import { ValidationError } from './errors';
+import { loadSchemaConverter, toJsonSchema } from './utils';
+import { toJsonPath } from './validation';
+
+/**
+ * Output formats of the exporters.
+ *
+ * - `'csv'`: comma-separated values (RFC 4180), for spreadsheets.
+ * - `'tsv'`: tab-separated values; tabs and line breaks in values are replaced by spaces.
+ * - `'jsonl'`: one JSON object per row, keyed by column name.
+ */
+export type ExportFormat = 'csv' | 'tsv' | 'jsonl';
+
+/**
+ * Document-level columns that can be added before the extracted fields.
+ *
+ * - `'document'`: the document name, or its 1-based position when it has none.
+ * - `'error'`: `<code>: <message>` when extraction failed.
+ * - `'confidence_score'`, `'credits'`: from `metadata`.
+ * - `'verification'`: the verification status, if verification ran.
+ */
+export type ExportMetaColumn = 'document' | 'error' | 'confidence_score' | 'credits' | 'verification';
+
+/**
+ * A result to export: a plain result, a named result (as used by `writeReports`),
+ * or a settled item from `extractBatch`.
+ */
+export type ExportEntry =
+  | ExtractResult<unknown>
+  | { name: string; result: ExtractResult<unknown> }
+  | BatchItemResult<unknown>;
+
+/**
+ * Options for `exportResults` and `exportResultsStream`.
+ */
+export interface ExportOptions {
+  /** Output format. */
+  format: ExportFormat;
+  /**
+   * Schema the results were extracted with. Columns follow its field order and include
+   * fields that no result has a value for. Without it, columns are taken from the results.
+   */
+  schema?: SchemaInput;
+  /** Exact data columns to output, as dot-separated paths (e.g. `'vendor.name'`). Overrides `schema`. */
+  columns?: string[];
+  /**
+   * Dot-separated path of an array to output one row per item of, such as `'line_items'`.
+   * Document fields are repeated on each item row, and documents without items get one row.
+   * By default each document is one row and arrays are written to a single cell.
+   */
+  explode?: string;
+  /** Add a `<column>.confidence` column with the score of each field. Defaults to false. */
+  confidence?: boolean;
+  /** Add `<column>.evidence` and `<column>.page` columns with the source text of each field. Defaults to false. */
+  evidence?: boolean;
+  /** Document-level columns written before the fields. Defaults to `['document', 'error']`. */
+  meta?: ExportMetaColumn[];
+  /** Write a header row (CSV and TSV). Defaults to true. */
+  header?: boolean;
+  /** Field delimiter for CSV, e.g. `';'` for spreadsheets in locales with decimal commas. Defaults to `','`. */
+  delimiter?: string;
+  /**
+   * Prefix text values that spreadsheets would run as formulas with `'` (CSV and TSV): text
+   * starting with `=` or `@`, and text starting with `+` or `-` unless the rest is only digits,
+   * spaces and `. , ( ) / -`. So numbers and numeric strings (`"-42.00"`, `"-1,250.00"`) and
+   * phone numbers (`"+49 30 1234"`) are never changed, while `"-2+3"` or `"+SUM(A1)"` are.
+   * Defaults to true.
+   */
+  escapeFormulas?: boolean;
+}
+
+/**
+ * A data column: a path into the document, or into an item of the exploded array.
+ */
+interface Column {
+  name: string;
+  path: string[];
+  item: boolean;
+}
+
+/**
+ * A document read from an export entry.
+ */
+interface ExportDocument {
+  name: string;
+  result: ExtractResult<unknown> | null;
+  error: string | null;
+}
+
+/**
+ * Flattens extraction results into CSV, TSV or JSON Lines.
+ *
+ * Nested objects become dot-separated columns (`vendor.name`). Arrays are written to a
+ * single cell, or expanded to one row per item with `explode`. Failed results are kept as
+ * rows with the `error` column set, so every document is accounted for.
+ *
+ * With a Zod 4 `schema`, `await preloadZod4()` once first.
+ *
+ * @param entries - Results, named results or `extractBatch` items, one document each.
+ * @returns The complete output, ending with a line break.
+ *
+ * @example
+ * ```ts
+ * const results = await client.extractBatch({ files, schema: schemas.invoice });
+ *
+ * // One row per line item, with the invoice fields repeated on each row
+ * const csv = exportResults(results, {
+ *   format: 'csv',
+ *   schema: schemas.invoice,
+ *   explode: 'line_items',
+ *   confidence: true,
+ * });
+ * await fs.promises.writeFile('invoices.csv', csv);
+ * ```
+ */
+export function exportResults(entries: Iterable<ExportEntry>, options: ExportOptions): string {
+  const documents = Array.from(entries, readEntry);
+  const columns = resolveColumns(options, () => documents);
+  const lines =
+    options.header === false || options.format === 'jsonl' ? [] : [renderHeader(columns, options)];
+  for (const document of documents) {
+    lines.push(...renderRows(document, columns, options));
+  }
+  return lines.map((line) => `${line}${lineEnding(options.format)}`).join('');
+}
+
+/**
+ * Streams extraction results as CSV, TSV or JSON Lines, one chunk per row, for batches
+ * too large to hold in memory or results that arrive over time.
+ *
+ * Columns must be known before the first row is written: they come from `columns` or
+ * `schema`, or else from the first result that has an object. In that last case a later
+ * result with fields the header lacks (e.g. more exploded item fields) fails the stream
+ * with a `ValidationError` rather than losing them, so pass `schema` or `columns` when
+ * results vary.
+ *
+ * @example
+ * ```ts
+ * import { createWriteStream } from 'fs';
+ * import { Readable } from 'stream';
+ * import { pipeline } from 'stream/promises';
+ *
+ * await pipeline(
+ *   Readable.from(exportResultsStream(results, { format: 'jsonl', schema })),
+ *   createWriteStream('results.jsonl')
+ * );
+ * ```
+ */
+export async function* exportResultsStream(
+  entries: Iterable<ExportEntry> | AsyncIterable<ExportEntry>,
+  options: ExportOptions
+): AsyncGenerator<string> {
+  const end = lineEnding(options.format);
+  const pending: ExportDocument[] = [];
+  if (options.schema && !options.columns) {
+    await loadSchemaConverter(options.schema);
+  }
+  let columns: Column[] | null =
+    options.columns || options.schema ? resolveColumns(options, () => []) : null;
+  // The document the columns were taken from, when neither `columns` nor `schema` was given
+  let headerDocument: ExportDocument | null = null;
+  let index = 0;
+
+  const start = function* (): Generator<string> {
+    if (options.header !== false && options.format !== 'jsonl') {
+      yield `${renderHeader(columns!, options)}${end}`;
+    }
+    for (const document of pending.splice(0)) {
+      for (const row of renderRows(document, columns!, options)) yield `${row}${end}`;
+    }
+  };
+
+  if (columns) yield* start();
+
+  for await (const entry of entries) {
+    const document = readEntry(entry, index++);
+    if (!columns) {
+      // Hold rows back until a result shows which columns there are
+      pending.push(document);
+      if (document.result?.object == null) continue;
+      columns = resolveColumns(options, () => [document]);
+      headerDocument = document;
+      yield* start();
+      continue;
+    }
+    if (headerDocument) {
+      assertNoNewColumns(document, headerDocument, columns, options);
+    }
+    for (const row of renderRows(document, columns, options)) yield `${row}${end}`;
+  }
+
+  if (!columns) {
+    columns = resolveColumns(options, () => []);
+    yield* start();
+  }
+}
+
+/**
+ * Throws when a streamed document has fields that are not in the header taken from
+ * `headerDocument`, since the header has already been written.
+ */
+function assertNoNewColumns(
+  document: ExportDocument,
+  headerDocument: ExportDocument,
+  columns: Column[],
+  options: ExportOptions
+): void {
+  const known = new Set(columns.map((column) => column.name));
+  const added = resolveColumns(options, () => [headerDocument, document])
+    .map((column) => column.name)
+    .filter((name) => !known.has(name));
+  if (added.length > 0) {
+    throw new ValidationError(
+      `Document "${document.name}" has fields that are not in the exported columns ` +
+        `(${added.join(', ')}); pass \`schema\` or \`columns\` to exportResultsStream`
+    );
+  }
+}
+
+/**
+ * Resolves the data columns from `columns`, the schema or, as a last resort, the documents.
+ */
+function resolveColumns(options: ExportOptions, documents: () => ExportDocument[]): Column[] {
+  const explode = options.explode ? options.explode.split('.') : null;
+
+  if (options.columns) {
+    return options.columns.map((name) => {
+      const path = name.split('.');
+      const item = explode !== null && startsWith(path, explode) && path.length > explode.length;
+      return { name, path: item ? path.slice(explode.length) : path, item };
+    });
+  }
+
+  const columns = new Map<string, Column>();
+  // Columns only seen with null values, dropped if another document has an object there
+  const nullOnly = new Set<string>();
+  const add = (path: string[], item: boolean, isNull = false) => {
+    const name = (item ? [...explode!, ...path] : path).join('.');
+    if (!columns.has(name)) {
+      columns.set(name, { name, path, item });
+      if (isNull) nullOnly.add(name);
+    } else if (!isNull) {
+      nullOnly.delete(name);
+    }
+  };
+
+  if (options.schema) {
+    collectSchemaColumns(toJsonSchema(options.schema), [], explode, add);
+    if (explode && ![...columns.values()].some((column) => column.item)) {
+      throw new ValidationError(`explode: "${options.explode}" is not an array in the schema`);
+    }
+  } else {
+    for (const document of documents()) {
+      collectValueColumns(document.result?.object, [], explode, add);
+    }
+    const names = [...columns.keys()];
+    for (const name of nullOnly) {
+      if (names.some((other) => other.startsWith(`${name}.`))) columns.delete(name);
+    }
+  }
+  return [...columns.values()];
+}
+
+/**
+ * Adds a column for every leaf of a JSON Schema, in property order.
+ */
+function collectSchemaColumns(
+  schema: JsonSchema,
+  path: string[],
+  explode: string[] | null,
+  add: (path: string[], item: boolean) => void,
+  itemOffset = -1
+): void {
+  const node = unwrapNullable(schema);
+  const properties = node.properties as Record<string, JsonSchema> | undefined;
+  const items = node.items as JsonSchema | undefined;
+
+  if (properties && Object.keys(properties).length > 0) {
+    for (const [key, child] of Object.entries(properties)) {
+      collectSchemaColumns(child, [...path, key], explode, add, itemOffset);
+    }
+  } else if (items && explode && itemOffset === -1 && equals(path, explode)) {
+    collectSchemaColumns(items, path, explode, add, path.length);
+  } else {
+    add(itemOffset === -1 ? path : path.slice(itemOffset), itemOffset !== -1);
+  }
+}
+
+/**
+ * Adds a column for every leaf of an extracted value, in key order.
+ */
+function collectValueColumns(
+  value: unknown,
+  path: string[],
+  explode: string[] | null,
+  add: (path: string[], item: boolean, isNull?: boolean) => void,
+  itemOffset = -1
+): void {
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    for (const [key, child] of Object.entries(value)) {
+      collectValueColumns(child, [...path, key], explode, add, itemOffset);
+    }
+  } else if (Array.isArray(value) && explode && itemOffset === -1 && equals(path, explode)) {
+    for (const item of value) {
+      if (isPlainObject(item)) collectValueColumns(item, path, explode, add, path.length);
+      else add([], true);
+    }
+  } else if (path.length > 0) {
+    add(itemOffset === -1 ? path : path.slice(itemOffset), itemOffset !== -1, value === null);
+  }
+}
+
+function renderHeader(columns: Column[], options: ExportOptions): string {
+  const names = headerNames(columns, options);
+  return names.map((name) => formatCell(name, options)).join(separator(options));
+}
+
+function headerNames(columns: Column[], options: ExportOptions): string[] {
+  const names: string[] = [...(options.meta ?? ['document', 'error'])];
+  for (const column of columns) {
+    names.push(column.name);
+    if (options.confidence) names.push(`${column.name}.confidence`);
+    if (options.evidence) names.push(`${column.name}.evidence`, `${column.name}.page`);
+  }
+  return names;
+}
+
+/**
+ * Renders the rows of one document: one row, or one per item of the exploded array.
+ */
+function renderRows(document: ExportDocument, columns: Column[], options: ExportOptions): string[] {
+  const { result } = document;
+  const object = result?.object ?? null;
+  const explode = options.explode ? options.explode.split('.') : null;
+  const confidence = new Map<string, FieldConfidence>(
+    (result?.metadata.field_confidence ?? []).map((fc) => [fc.field, fc])
+  );
+
+  const items = explode ? getPath(object, explode) : undefined;
+  const indices = Array.isArray(items) && items.length > 0 ? items.map((_, i) => i) : [null];
+
+  return indices.map((itemIndex) => {
+    const values: unknown[] = (options.meta ?? ['document', 'error']).map((meta) =>
+      metaValue(meta, document)
+    );
+
+    for (const column of columns) {
+      const path =
+        column.item && itemIndex !== null ? [...explode!, itemIndex, ...column.path] : column.path;
+      const value =
+        column.item && itemIndex === null ? undefined : getPath(object, path);
+      values.push(value);
+
+      const fc = column.item && itemIndex === null ? undefined : confidence.get(toJsonPath(path));
+      if (options.confidence) values.push(fc?.score);
+      if (options.evidence) values.push(fc?.text, fc?.page);
+    }
+
+    if (options.format === 'jsonl') {
+      const names = headerNames(columns, options);
+      return JSON.stringify(Object.fromEntries(names.map((name, i) => [name, values[i] ?? null])));
+    }
+    return values.map((value) => formatCell(value, options)).join(separator(options));
+  });
+}
+
+function metaValue(meta: ExportMetaColumn, document: ExportDocument): unknown {
+  switch (meta) {
+    case 'document':
+      return document.name;
+    case 'error':
+      return document.error;
+    case 'confidence_score':
+      return document.result?.metadata.confidence_score;
+    case 'credits':
+      return document.result?.metadata.credits;
+    case 'verification':
+      return document.result?.verification?.status;
+  }
+}
+
+/**
+ * Whether a spreadsheet would read text as a formula. Signed numbers and phone numbers are not.
+ */
+function isFormulaLike(value: string): boolean {
+  if (/^[=@]/.test(value)) return true;
+  return /^[+-]/.test(value) && !/^[+-][\d\s.,()\/-]*\d[\d\s.,()\/-]*$/.test(value);
+}
+
+/**
+ * Formats a value as a CSV or TSV cell.
+ */
+function formatCell(value: unknown, options: ExportOptions): string {
+  let text: string;
+  if (value === null || value === undefined) {
+    text = '';
+  } else if (typeof value === 'string') {
+    text = options.escapeFormulas !== false && isFormulaLike(value) ? `'${value}` : value;
+  } else if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (Array.isArray(value) && value.every((item) => item === null || typeof item !== 'object')) {
+    text = value.map((item) => String(item ?? '')).join('; ');
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  if (options.format === 'tsv') {
+    return text.replace(/[\t\r\n]+/g, ' ');
+  }
+  const delimiter = separator(options);
+  return text.includes('"') || text.includes(delimiter) || /[\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+function separator(options: ExportOptions): string {
+  return options.format === 'tsv' ? '\t' : options.delimiter ?? ',';
+}
+
+function lineEnding(format: ExportFormat): string {
+  return format === 'csv' ? '\r\n' : '\n';
+}
+
+function readEntry(entry: ExportEntry, index: number): ExportDocument {
+  if ('status' in entry) {
+    const name =
+      typeof entry.file === 'string'
+        ? entry.file
+        : typeof File !== 'undefined' && entry.file instanceof File
+          ? entry.file.name
+          : String(entry.index + 1);
+    return entry.status === 'fulfilled'
+      ? { name, result: entry.result, error: describeError(entry.result) }
+      : {
+          name,
+          result: null,
+          error: `${entry.error.code ?? entry.error.name}: ${entry.error.message}`,
+        };
+  }
+  if ('name' in entry && 'result' in entry) {
+    return { name: entry.name, result: entry.result, error: describeError(entry.result) };
+  }
+  return { name: String(index + 1), result: entry, error: describeError(entry) };
+}
+
+function describeError(result: ExtractResult<unknown>): string | null {
+  return result.error ? `${result.error.code}: ${result.error.message}` : null;
+}
+
+/**
+ * Reads the first branch of a nullable JSON Schema (`anyOf: [X, { type: 'null' }]`).
+ */
+function unwrapNullable(schema: JsonSchema): JsonSchema {
+  const branches = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined;
+  if (!branches) return schema;
+  return branches.find((branch) => branch.type !== 'null') ?? schema;
+}
+
+function getPath(value: unknown, path: Array<string | number>): unknown {
+  let current = value;
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
+
+function startsWith(path: string[], prefix: string[]): boolean {
+  return prefix.every((segment, i) => path[i] === segment);
+}
+
+function equals(a: string[], b: string[]): boolean {
+  return a.length === b.length && startsWith(a, b);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
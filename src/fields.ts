@@ -0,0 +1,185 @@
+import type { ExtractResult, FieldConfidence } from './types';
+import { DEFAULT_CONFIDENCE_THRESHOLD } from './types';
+import { toJsonPath } from './validation';
+
+/**
+ * Values treated as leaves when walking an extracted object.
+ */
+type Leaf = string | number | boolean | bigint | symbol | null | undefined | Date;
+
+/**
+ * Depth counter used to bound `FieldPath` recursion.
+ * @internal
+ */
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+
+/**
+ * Every dot-separated path into `T`, with array indices as numbers.
+ * Misspelled paths fail at compile time.
+ *
+ * @example
+ * ```ts
+ * type Invoice = { total: number; line_items: { amount: number }[] };
+ * type Paths = FieldPath<Invoice>;
+ * // "total" | "line_items" | `line_items.${number}` | `line_items.${number}.amount`
+ * ```
+ */
+export type FieldPath<T, Depth extends number = 8> = [Depth] extends [never]
+  ? never
+  : T extends Leaf
+    ? never
+    : T extends readonly (infer U)[]
+      ? `${number}` | SubPath<`${number}`, U, Depth>
+      : {
+          [K in keyof T & string]-?: K | SubPath<K, NonNullable<T[K]>, Depth>;
+        }[keyof T & string];
+
+type SubPath<Prefix extends string, T, Depth extends number> =
+  NonNullable<T> extends Leaf ? never : `${Prefix}.${FieldPath<NonNullable<T>, PrevDepth[Depth]>}`;
+
+/**
+ * An extracted value zipped with its confidence details.
+ * Confidence fields are undefined when the API reported none for the value.
+ */
+export interface FieldEvidence<V> {
+  /** The extracted value. */
+  value: V;
+  /** JSON path of the value, as used in `field_confidence`. */
+  field: string;
+  /** Confidence score (0.0 to 1.0). */
+  score?: number;
+  /** Explanation of how the value was extracted. */
+  reason?: string;
+  /** Page number where the value was found. */
+  page?: number;
+  /** Source text evidence from the document. */
+  text?: string;
+}
+
+/**
+ * An extracted object where every leaf value is replaced by its `FieldEvidence`.
+ */
+export type WithEvidence<T> = T extends Leaf
+  ? FieldEvidence<T>
+  : T extends readonly (infer U)[]
+    ? WithEvidence<U>[]
+    : { [K in keyof T]: WithEvidence<T[K]> };
+
+/**
+ * Typed accessors for the field-level confidence of an extraction result.
+ */
+export interface ResultFields<T> {
+  /**
+   * Gets the confidence details for a field by dot path (e.g. `line_items.0.amount`).
+   * Returns undefined if the API reported no confidence for the field.
+   */
+  confidenceOf(path: FieldPath<T>): FieldConfidence | undefined;
+  /**
+   * Lists the fields scored below `threshold`, lowest score first.
+   * Defaults to the default confidence threshold (0.85).
+   */
+  lowConfidenceFields(threshold?: number): FieldConfidence[];
+  /**
+   * Zips every leaf value of the extracted object with its score, reason, page and text.
+   * Returns null if extraction failed.
+   */
+  withEvidence(): WithEvidence<T> | null;
+}
+
+/**
+ * Creates typed field accessors for an extraction result.
+ *
+ * @example
+ * ```ts
+ * const result = await client.extract({ file: './invoice.pdf', schema });
+ * const fields = fieldsOf(result);
+ *
+ * fields.confidenceOf('line_items.0.amount')?.score;
+ * fields.confidenceOf('line_items.0.amuont'); // compile error
+ *
+ * fields.lowConfidenceFields(0.9).forEach((fc) => console.warn(fc.field, fc.score));
+ *
+ * const evidence = fields.withEvidence();
+ * console.log(evidence?.total.value, evidence?.total.text);
+ * ```
+ */
+export function fieldsOf<T>(result: ExtractResult<T>): ResultFields<T> {
+  const confidence = result.metadata.field_confidence;
+  const byField = new Map(confidence.map((fc) => [fc.field, fc]));
+
+  return {
+    confidenceOf(path) {
+      return byField.get(fieldPathToJsonPath(path));
+    },
+    lowConfidenceFields(threshold = DEFAULT_CONFIDENCE_THRESHOLD) {
+      return confidence
+        .filter((fc) => fc.score < threshold)
+        .sort((a, b) => a.score - b.score);
+    },
+    withEvidence() {
+      if (result.object === null) return null;
+      return attachEvidence(result.object, [], byField) as WithEvidence<T>;
+    },
+  };
+}
+
+/**
+ * Converts a dot path (`line_items.0.amount`) to a JSON path (`$.line_items[0].amount`).
+ * JSON paths are returned unchanged.
+ */
+export function fieldPathToJsonPath(path: string): string {
+  if (path === '$' || path.startsWith('$.') || path.startsWith('$[')) {
+    return path;
+  }
+  return toJsonPath(
+    path === '' ? [] : path.split('.').map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment))
+  );
+}
+
+/**
+ * Lists every leaf value of an extracted object with its JSON path, in document order.
+ * @internal
+ */
+export function listFieldValues(object: unknown): Array<{ field: string; value: unknown }> {
+  const values: Array<{ field: string; value: unknown }> = [];
+
+  const walk = (value: unknown, path: Array<string | number>) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => walk(item, [...path, i]));
+    } else if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+      Object.entries(value).forEach(([key, item]) => walk(item, [...path, key]));
+    } else {
+      values.push({ field: toJsonPath(path), value });
+    }
+  };
+
+  walk(object, []);
+  return values;
+}
+
+function attachEvidence(
+  value: unknown,
+  path: Array<string | number>,
+  byField: Map<string, FieldConfidence>
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, i) => attachEvidence(item, [...path, i], byField));
+  }
+
+  if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, attachEvidence(item, [...path, key], byField)])
+    );
+  }
+
+  const field = toJsonPath(path);
+  const fc = byField.get(field);
+  return {
+    value,
+    field,
+    score: fc?.score,
+    reason: fc?.reason,
+    page: fc?.page,
+    text: fc?.text,
+  };
+}
@@ -0,0 +1,90 @@
+import type {
+  ExtractPhase,
+  ExtractResult,
+  ExtractTimings,
+  ParsefyHooks,
+} from './types';
+
+/**
+ * Tracks one extraction and reports it to the configured hooks.
+ * @internal
+ */
+export interface ExtractionTrace {
+  /** Id of the extraction, passed to every hook. */
+  readonly extractId: string;
+  /** Runs one step of the extraction, timing it and remembering it if it throws. */
+  phase<R>(name: ExtractPhase, fn: () => R | Promise<R>): Promise<R>;
+  /** Calls a hook with the given payload (minus the extract id). */
+  emit<K extends 'onRequestStart' | 'onResponse' | 'onRetry'>(
+    name: K,
+    event: Omit<Parameters<NonNullable<ParsefyHooks[K]>>[0], 'extractId'>
+  ): void;
+  /** Reports a result and returns it. */
+  complete<T>(result: ExtractResult<T>): ExtractResult<T>;
+  /** Reports an error and returns it, to be rethrown. */
+  fail(error: unknown): unknown;
+}
+
+/**
+ * Starts tracing an extraction and calls `onExtractStart`.
+ * @internal
+ */
+export function startTrace(
+  hooks: ParsefyHooks[],
+  extractId: string,
+  details: { tag?: string; batchIndex?: number } = {}
+): ExtractionTrace {
+  const startedAt = Date.now();
+  const timings: ExtractTimings = {};
+  let currentPhase: ExtractPhase = 'schema';
+
+  const call = <K extends keyof ParsefyHooks>(
+    name: K,
+    event: Parameters<NonNullable<ParsefyHooks[K]>>[0]
+  ) => {
+    for (const hook of hooks) {
+      try {
+        (hook[name] as ((event: unknown) => void) | undefined)?.(event);
+      } catch {
+        // Hooks are for observation only and must never break an extraction
+      }
+    }
+  };
+
+  call('onExtractStart', { extractId, ...details, startedAt });
+
+  return {
+    extractId,
+    async phase(name, fn) {
+      currentPhase = name;
+      const start = Date.now();
+      try {
+        return await fn();
+      } finally {
+        timings[name] = Date.now() - start;
+      }
+    },
+    emit(name, event) {
+      call(name, { ...event, extractId } as Parameters<NonNullable<ParsefyHooks[typeof name]>>[0]);
+    },
+    complete(result) {
+      call('onExtractComplete', {
+        extractId,
+        result,
+        timings: { ...timings },
+        durationMs: Date.now() - startedAt,
+      });
+      return result;
+    },
+    fail(error) {
+      call('onError', {
+        extractId,
+        error: error instanceof Error ? error : new Error(String(error)),
+        phase: currentPhase,
+        timings: { ...timings },
+        durationMs: Date.now() - startedAt,
+      });
+      return error;
+    },
+  };
+}
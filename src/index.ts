@@ -1,27 +1,178 @@
 // Client
 export { Parsefy } from './client';
 
+// Schema library
+export { schemas, SCHEMA_LIBRARY_VERSION } from './schemas';
+export type {
+  DocumentType,
+  Invoice,
+  Receipt,
+  BankStatement,
+  UtilityBill,
+  CreditNote,
+} from './schemas';
+
+// Normalizers
+export { normalizers } from './normalize';
+
+// Usage tracking
+export { UsageTracker } from './usage';
+
+// Tracing
+export { otelHooks } from './otel';
+export type { OtelTracer, OtelSpan, OtelAttributes, OtelHooksOptions } from './otel';
+
+// Jobs and webhooks
+export { Jobs } from './jobs';
+export { verifyWebhook, WEBHOOK_SIGNATURE_HEADER, DEFAULT_WEBHOOK_TOLERANCE } from './webhooks';
+
+// Rate limiting
+export { RateLimiter } from './ratelimit';
+
+// Folder ingestion
+export { watchFolder, FolderWatcher, DEFAULT_WATCH_CONFIG } from './watch';
+export type { WatchFolderOptions, WatchFolderEvent, WatchOutcome } from './watch';
+
+// Result cache
+export { memoryCache, fileCache, DEFAULT_MEMORY_CACHE_SIZE } from './cache';
+
+// Schema analysis
+export { analyzeSchema, MAX_RECOMMENDED_REQUIRED_FIELDS } from './analyze';
+export { preloadZod4 } from './utils';
+
+// Testing
+export { MockParsefy, mocks, recordFixtures, mockWebhook } from './testing';
+export type { MockParsefyOptions, MockFixture, MockFailure, MockMode, MockCall } from './testing';
+
+// Verification
+export {
+  verify,
+  verifyResult,
+  mergeVerifications,
+  defineRule,
+  defaultRules,
+  rules,
+  DEFAULT_VERIFICATION_TOLERANCE,
+} from './verification';
+export type { VerificationRule, VerificationContext, CustomRuleOptions } from './verification';
+
+// Field accessors
+export { fieldsOf, fieldPathToJsonPath } from './fields';
+export type { FieldPath, FieldEvidence, WithEvidence, ResultFields } from './fields';
+
+// Review reports
+export { renderReport, renderReportIndex, writeReports, needsReview } from './report';
+export type { ReportOptions, ReportEntry, ReviewReasons } from './report';
+
+// Export
+export { exportResults, exportResultsStream } from './export';
+export type { ExportOptions, ExportFormat, ExportMetaColumn, ExportEntry } from './export';
+
+// E-invoicing
+export { toUbl, validateUbl, DEFAULT_UBL_MAPPING } from './ubl';
+export type {
+  UblOptions,
+  UblMapping,
+  UblFieldSource,
+  UblLineFieldSource,
+  UblIssue,
+  UblValidation,
+} from './ubl';
+
 // Errors
 export {
   ParsefyError,
   APIError,
+  AuthenticationError,
+  RateLimitError,
+  TimeoutError,
+  NetworkError,
+  ResponseParseError,
   ExtractionError,
   ValidationError,
+  SchemaValidationError,
+  SchemaAnalysisError,
+  BudgetExceededError,
+  WebhookVerificationError,
 } from './errors';
 
 // Types
 export type {
   ParsefyConfig,
+  FetchLike,
+  ParsefyRequest,
+  ParsefyMiddleware,
+  RetryConfig,
+  RetryInfo,
+  RateLimiterOptions,
+  RateLimiterStats,
+  ParsefyHooks,
+  ExtractPhase,
+  ExtractTimings,
+  ExtractStartEvent,
+  RequestStartEvent,
+  ResponseEvent,
+  RetryEvent,
+  ExtractErrorEvent,
+  ExtractCompleteEvent,
+  CacheConfig,
+  CacheStore,
+  CacheEntry,
+  CacheMode,
+  CacheInfo,
+  BudgetConfig,
+  UsageTotals,
+  UsageSnapshot,
   ExtractOptions,
+  ExtractBatchOptions,
+  ExtractSplitOptions,
+  JsonSchema,
+  StandardSchemaV1,
+  StandardSchemaV1Props,
+  StandardSchemaV1Result,
+  SchemaInput,
+  InferSchema,
   ExtractResult,
+  ExtractSuccess,
+  ExtractFailure,
+  BatchItemResult,
+  BatchProgress,
+  SplitItemResult,
+  PageSelection,
+  SplitStrategy,
+  CreateJobOptions,
+  JobResultOptions,
+  Job,
+  JobStatus,
+  WaitForJobOptions,
+  WebhookEvent,
+  WebhookEventType,
+  VerifyWebhookOptions,
   ExtractionMetadata,
+  ValidationMode,
+  SchemaValidationIssue,
+  PreflightOptions,
+  SchemaWarning,
+  SchemaWarningSeverity,
+  SchemaWarningCode,
+  SchemaAnalysis,
   FieldConfidence,
   Verification,
   VerificationStatus,
   VerificationCheck,
   APIErrorResponse,
+  SupportedMimeType,
+  ImagePreprocessOptions,
+  NormalizerOptions,
+  LocaleNormalizerOptions,
+  MoneyNormalizerOptions,
+  VatIdNormalizerOptions,
 } from './types';
 
 // Constants
-export { DEFAULT_CONFIDENCE_THRESHOLD } from './types';
+export {
+  DEFAULT_CONFIDENCE_THRESHOLD,
+  DEFAULT_BATCH_CONCURRENCY,
+  DEFAULT_JOB_WAIT_CONFIG,
+} from './types';
 
@@ -0,0 +1,286 @@
+import type {
+  ApiRequest,
+  CreateJobOptions,
+  ExtractResult,
+  InferSchema,
+  Job,
+  JobResultOptions,
+  RawJobResponse,
+  SchemaInput,
+  WaitForJobOptions,
+} from './types';
+import { DEFAULT_JOB_WAIT_CONFIG } from './types';
+import { ParsefyError, ValidationError } from './errors';
+import {
+  buildFormData,
+  generateIdempotencyKey,
+  loadSchemaConverter,
+  parseExtractResponse,
+  prepareDocument,
+  toJsonSchema,
+} from './utils';
+import { runPreflight } from './analyze';
+import { normalizeExtractResult } from './normalize';
+import { remapPages } from './pages';
+import { schemaUsageKey, type UsageLabels, type UsageTracker } from './usage';
+import { validateExtractResult } from './validation';
+
+/**
+ * Sends API requests through the client's transport, retries and middleware.
+ * @internal
+ */
+export type JobsTransport = <R>(request: ApiRequest) => Promise<R>;
+
+/**
+ * Asynchronous extraction jobs, available as `client.jobs`.
+ *
+ * A job is submitted and returns immediately with an id, so documents that take longer
+ * than the request `timeout` can be extracted from short-lived functions. Poll the job with
+ * `get` or `wait`, or have the API call a webhook when it finishes (see `verifyWebhook`).
+ *
+ * The hard budget is checked before a job is submitted. Its credits are recorded in
+ * `client.usage` when this client first sees it finish through `get` or `wait`; jobs that are
+ * only seen through webhooks or another client, or whose `wait` times out or is aborted before
+ * they finish, are not recorded.
+ *
+ * @example
+ * ```ts
+ * const job = await client.jobs.create({ file: './statement.pdf', schema });
+ *
+ * const done = await client.jobs.wait(job, { timeout: 300_000 });
+ * if (done.status === 'completed') {
+ *   console.log(done.result?.object);
+ * }
+ * ```
+ */
+export class Jobs {
+  private readonly request: JobsTransport;
+  private readonly usage: UsageTracker;
+  /** Jobs created by this client that have not been seen finishing yet. */
+  private readonly pending = new Map<string, { labels: UsageLabels; pages?: number[] }>();
+
+  /** @internal */
+  constructor(request: JobsTransport, usage: UsageTracker) {
+    this.request = request;
+    this.usage = usage;
+  }
+
+  /**
+   * Submits a document for extraction and returns the queued job.
+   *
+   * @param options - The same document and schema options as `extract`, plus an optional `webhookUrl`.
+   */
+  async create<T extends SchemaInput>(
+    options: CreateJobOptions<T>
+  ): Promise<Job<InferSchema<T>>> {
+    const {
+      file,
+      schema,
+      jsonSchema: jsonSchemaOverride,
+      confidenceThreshold,
+      enableVerification,
+      idempotencyKey = generateIdempotencyKey(),
+      filename,
+      mimeType,
+      preprocess,
+      pages,
+      preflight,
+      tag,
+      priority,
+      webhookUrl,
+    } = options;
+
+    await loadSchemaConverter(schema);
+    runPreflight(schema, preflight, jsonSchemaOverride);
+    const jsonSchema = toJsonSchema(schema, jsonSchemaOverride);
+    const labels = { schema: await schemaUsageKey(jsonSchema), tag };
+    const prepared = await prepareDocument(file, { filename, mimeType, preprocess, pages });
+
+    const formData = buildFormData(prepared.file, jsonSchema, {
+      confidenceThreshold,
+      enableVerification,
+    });
+    if (webhookUrl !== undefined) {
+      formData.append('webhook_url', webhookUrl);
+    }
+
+    // Hold a credit while submitting, so parallel submissions cannot all pass the budget check
+    const reserved = this.usage.reserve();
+    let raw: RawJobResponse;
+    try {
+      raw = await this.request<RawJobResponse>({
+        method: 'POST',
+        path: '/v1/jobs',
+        body: formData,
+        idempotencyKey,
+        priority,
+      });
+    } finally {
+      this.usage.release(reserved);
+    }
+    this.pending.set(raw.id, { labels, pages: prepared.pages });
+    return this.settle(transformJob<InferSchema<T>>(raw));
+  }
+
+  /**
+   * Fetches the current state of a job.
+   *
+   * @param id - The job id returned by `create`.
+   * @param options - Pass `schema` to normalize the result and `validate` it as `extract` does.
+   */
+  async get<T = Record<string, unknown>>(
+    id: string,
+    options: JobResultOptions = {}
+  ): Promise<Job<T>> {
+    if (!id) {
+      throw new ValidationError('Job id is required');
+    }
+
+    return checkResult(await this.fetchJob<T>(id), options);
+  }
+
+  /**
+   * Polls a job until it is completed or failed, waiting longer between polls as it runs.
+   *
+   * @param job - The job returned by `create`, or its id.
+   * @returns The finished job. Check `status` (and `result.error`) to tell success from failure.
+   * @throws ParsefyError with code `JOB_WAIT_TIMEOUT` when `timeout` elapses first,
+   *   or `JOB_WAIT_ABORTED` when `signal` is aborted.
+   */
+  async wait<T = Record<string, unknown>>(
+    job: Job<T> | string,
+    options: WaitForJobOptions<T> = {}
+  ): Promise<Job<T>> {
+    if (typeof job !== 'string' && isFinished(job)) {
+      return checkResult(this.settle(job), options);
+    }
+
+    const id = typeof job === 'string' ? job : job.id;
+    const { pollInterval, maxPollInterval, timeout } = { ...DEFAULT_JOB_WAIT_CONFIG, ...options };
+    const { signal, onPoll } = options;
+    const deadline = Date.now() + timeout;
+    let interval = pollInterval;
+
+    try {
+      for (;;) {
+        throwIfAborted(id, signal);
+        let current: Job<T>;
+        try {
+          current = await this.fetchJob<T>(id, signal);
+        } catch (error) {
+          throwIfAborted(id, signal);
+          throw error;
+        }
+        current = await checkResult(current, options);
+        onPoll?.(current);
+        if (isFinished(current)) {
+          return current;
+        }
+
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+          throw new ParsefyError(`Job ${id} did not finish within ${timeout}ms`, 'JOB_WAIT_TIMEOUT');
+        }
+        await sleep(Math.min(interval, remaining), signal);
+        interval = Math.min(interval * 1.5, maxPollInterval);
+      }
+    } finally {
+      // A job that was given up on is never settled, so stop tracking it
+      this.pending.delete(id);
+    }
+  }
+
+  /**
+   * Fetches a job and settles it if it has finished.
+   */
+  private async fetchJob<T>(id: string, signal?: AbortSignal): Promise<Job<T>> {
+    const raw = await this.request<RawJobResponse>({
+      method: 'GET',
+      path: `/v1/jobs/${encodeURIComponent(id)}`,
+      signal,
+    });
+    return this.settle(transformJob<T>(raw));
+  }
+
+  /**
+   * Records a finished job created by this client in `usage` (once) and maps its result
+   * back to the pages of the original document.
+   */
+  private settle<T>(job: Job<T>): Job<T> {
+    const pending = this.pending.get(job.id);
+    if (!pending || !isFinished(job)) {
+      return job;
+    }
+
+    this.pending.delete(job.id);
+    if (!job.result) {
+      this.usage.recordFailure(pending.labels);
+      return job;
+    }
+    const result = remapPages(job.result, pending.pages);
+    this.usage.record(result, pending.labels);
+    return { ...job, result };
+  }
+}
+
+/**
+ * Normalizes and validates a job's result against `schema`, when given.
+ * @internal
+ */
+async function checkResult<T>(job: Job<T>, options: JobResultOptions): Promise<Job<T>> {
+  const { schema, validate } = options;
+  if (!schema || !job.result) {
+    return job;
+  }
+  const result: ExtractResult<T> = await validateExtractResult(
+    normalizeExtractResult(job.result, schema),
+    schema,
+    validate
+  );
+  return { ...job, result };
+}
+
+/**
+ * Transforms a raw job, including its extraction result.
+ * @internal
+ */
+export function transformJob<T>(raw: RawJobResponse): Job<T> {
+  const job: Job<T> = { id: raw.id, status: raw.status, createdAt: raw.created_at };
+  if (raw.completed_at) {
+    job.completedAt = raw.completed_at;
+  }
+  if (raw.result) {
+    job.result = parseExtractResponse<T>(raw.result);
+  }
+  if (raw.error) {
+    job.error = raw.error;
+  }
+  return job;
+}
+
+function isFinished(job: Job<unknown>): boolean {
+  return job.status === 'completed' || job.status === 'failed';
+}
+
+function throwIfAborted(id: string, signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new ParsefyError(`Stopped waiting for job ${id}`, 'JOB_WAIT_ABORTED');
+  }
+}
+
+/**
+ * Waits `ms` milliseconds, resolving early when `signal` is aborted.
+ */
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
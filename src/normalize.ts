@@ -0,0 +1,564 @@
+import { z } from 'zod';
+import type {
+  ExtractResult,
+  LocaleNormalizerOptions,
+  MoneyNormalizerOptions,
+  NormalizerOptions,
+  SchemaInput,
+  VatIdNormalizerOptions,
+} from './types';
+import { isZod4Schema, isZodSchema } from './utils';
+import { parseNumberLike, toJsonPath, zodDef, type ZodSchema } from './validation';
+
+/**
+ * Outcome of normalizing one extracted value.
+ */
+type Normalized = { value: unknown } | { issue: string };
+
+/**
+ * Normalizes one extracted value.
+ */
+type Normalizer = (value: unknown) => Normalized;
+
+/**
+ * Key of the normalizer on a schema definition. Zod copies definitions when a schema is
+ * described or wrapped, so the normalizer survives `.describe()` and `.optional()`.
+ */
+const NORMALIZER = Symbol('parsefy.normalizer');
+
+/**
+ * Currency symbols, longest first so `US$` wins over `$`.
+ */
+const CURRENCY_SYMBOLS: Array<[string, string]> = [
+  ['US$', 'USD'],
+  ['CA$', 'CAD'],
+  ['AU$', 'AUD'],
+  ['NZ$', 'NZD'],
+  ['HK$', 'HKD'],
+  ['R$', 'BRL'],
+  ['C$', 'CAD'],
+  ['A$', 'AUD'],
+  ['S$', 'SGD'],
+  ['zł', 'PLN'],
+  ['Kč', 'CZK'],
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['¥', 'JPY'],
+  ['₹', 'INR'],
+  ['₩', 'KRW'],
+  ['₺', 'TRY'],
+  ['₪', 'ILS'],
+  ['₽', 'RUB'],
+  ['฿', 'THB'],
+];
+
+/**
+ * Currencies written with a bare `$`.
+ */
+const DOLLAR_CURRENCIES = new Set(['USD', 'CAD', 'AUD', 'NZD', 'HKD', 'SGD', 'MXN']);
+
+/**
+ * Format of the part after the country prefix of EU (and a few other European) VAT ids.
+ * @internal
+ */
+export const VAT_ID_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CH: /^E\d{9}(MWST|TVA|IVA)?$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-Z0-9]{2}\d{9}$/,
+  GB: /^(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-Z]{1,2}|\d[A-Z+*]\d{5}[A-Z])$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  NO: /^\d{9}(MVA)?$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{12}$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+  XI: /^(\d{9}|\d{12}|GD\d{3}|HA\d{3})$/,
+};
+
+/**
+ * Zod helpers for values that documents format in many ways: amounts, dates, percentages,
+ * IBANs and VAT ids.
+ *
+ * Each helper returns a plain Zod schema whose `.describe()` text tells the API which
+ * canonical form to return. Whatever form comes back, `extract` and `extractBatch` then
+ * normalize the value locally (`"1.250,00 €"` → `{ amount: 1250, currency: 'EUR' }`,
+ * `"01/02/2024"` → `"2024-02-01"`, `"DE 123 456 789"` → `"DE123456789"`). Values that
+ * cannot be read are left as returned and reported in `metadata.issues`, which also makes
+ * `validate` fail on them where the format is part of the schema.
+ *
+ * @example
+ * ```ts
+ * import { normalizers } from 'parsefy';
+ *
+ * const schema = z.object({
+ *   total: normalizers.money({ description: 'Total amount due', locale: 'de-DE', currency: 'EUR' }),
+ *   date: normalizers.date({ description: 'Invoice date', locale: 'de-DE' }),
+ *   tax_rate: normalizers.percentage({ description: 'Tax rate' }).optional(),
+ *   iban: normalizers.iban().optional(),
+ *   vendor_vat_id: normalizers.vatId({ description: 'VAT id of the vendor' }),
+ * });
+ *
+ * const { object, metadata } = await client.extract({ file, schema });
+ * // object.total → { amount: 1250, currency: 'EUR' }
+ * // metadata.issues → ['$.vendor_vat_id: "DE 12345" is not a valid DE VAT id']
+ * ```
+ */
+export const normalizers = {
+  /**
+   * A monetary amount with its currency, as `{ amount, currency }`.
+   * Reads amounts such as `"1.250,00 €"`, `"$1,250.00"`, `"EUR 1250"` or a bare number.
+   */
+  money(options: MoneyNormalizerOptions = {}) {
+    const { description = 'Monetary amount', locale } = options;
+    const currency = options.currency?.toUpperCase();
+    const example = currency
+      ? `e.g. ${currency}; use ${currency} when no currency is printed`
+      : 'e.g. EUR';
+
+    const schema = z
+      .object({
+        amount: z
+          .number()
+          .describe('Amount as a plain number without thousands separators, e.g. 1250.00'),
+        currency: z.string().describe(`3-letter ISO 4217 currency code, ${example}`),
+      })
+      .describe(`${description}, with the amount as a plain number and its ISO 4217 currency code`);
+
+    return withNormalizer(schema, (value) => {
+      let amount: number | null = null;
+      let code: string | null = null;
+      if (typeof value === 'number') {
+        amount = value;
+      } else if (typeof value === 'string') {
+        amount = parseAmount(value, locale);
+        code = findCurrency(value, currency);
+      } else if (isPlainObject(value)) {
+        amount =
+          typeof value.amount === 'number'
+            ? value.amount
+            : typeof value.amount === 'string'
+              ? parseAmount(value.amount, locale)
+              : null;
+        code = typeof value.currency === 'string' ? findCurrency(value.currency, currency) : null;
+        if (!code && typeof value.amount === 'string') {
+          code = findCurrency(value.amount, currency);
+        }
+      }
+
+      if (amount === null) {
+        return { issue: `could not read ${quote(value)} as an amount` };
+      }
+      code ??= currency ?? null;
+      if (!code) {
+        return {
+          issue: `no currency found in ${quote(value)}; pass a default currency to normalizers.money()`,
+        };
+      }
+      return { value: { amount, currency: code } };
+    });
+  },
+
+  /**
+   * A calendar date as an ISO 8601 `YYYY-MM-DD` string.
+   * Reads dates such as `"01/02/2024"`, `"1.2.24"`, `"1 Feb 2024"` or `"February 1, 2024"`.
+   * Numeric dates where day and month could be swapped need a `locale` to be read.
+   */
+  date(options: LocaleNormalizerOptions = {}) {
+    const { description = 'Date', locale } = options;
+    const dayFirst = locale ? isDayFirst(locale) : undefined;
+    const hint =
+      dayFirst === undefined
+        ? ''
+        : dayFirst
+          ? '. The document writes dates day first, e.g. 31/12/2024'
+          : '. The document writes dates month first, e.g. 12/31/2024';
+
+    const schema = z.string().describe(`${description} in YYYY-MM-DD format${hint}`);
+
+    return withNormalizer(schema, (value) => {
+      if (typeof value !== 'string') {
+        return { issue: `expected a date, got ${quote(value)}` };
+      }
+      const parsed = parseDate(value, dayFirst, locale);
+      return typeof parsed === 'string' ? { value: parsed } : parsed;
+    });
+  },
+
+  /**
+   * A percentage as a number of percent, e.g. `19.5` for 19.5%.
+   * Reads values such as `"19,5 %"` or `"7%"`.
+   */
+  percentage(options: LocaleNormalizerOptions = {}) {
+    const { description = 'Percentage', locale } = options;
+    const schema = z
+      .number()
+      .describe(`${description} as a number of percent, e.g. 19.5 for 19.5%`);
+
+    return withNormalizer(schema, (value) => {
+      if (typeof value === 'number') return { value };
+      const parsed = typeof value === 'string' ? parseAmount(value, locale) : null;
+      return parsed === null
+        ? { issue: `could not read ${quote(value)} as a percentage` }
+        : { value: parsed };
+    });
+  },
+
+  /**
+   * An IBAN in electronic format: uppercase, without spaces. The check digits are verified.
+   */
+  iban(options: NormalizerOptions = {}) {
+    const { description = 'IBAN' } = options;
+    const schema = z
+      .string()
+      .describe(
+        `${description} in electronic format, uppercase without spaces, e.g. DE89370400440532013000`
+      );
+
+    return withNormalizer(schema, (value) => {
+      const iban = typeof value === 'string' ? value.replace(/[\s.-]/g, '').toUpperCase() : '';
+      if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban) || !hasValidIbanChecksum(iban)) {
+        return { issue: `${quote(value)} is not a valid IBAN` };
+      }
+      return { value: iban };
+    });
+  },
+
+  /**
+   * A VAT identification number with its country prefix, uppercase without spaces or
+   * punctuation, e.g. `"DE123456789"`. EU formats (and CH, GB, NO) are checked.
+   */
+  vatId(options: VatIdNormalizerOptions = {}) {
+    const { description = 'VAT identification number' } = options;
+    const country = options.country?.toUpperCase();
+    const schema = z
+      .string()
+      .describe(
+        `${description} with its 2-letter country prefix, uppercase without spaces or punctuation, ` +
+          'e.g. DE123456789'
+      );
+
+    return withNormalizer(schema, (value) => {
+      if (typeof value !== 'string') {
+        return { issue: `expected a VAT id, got ${quote(value)}` };
+      }
+      let vatId = value.replace(/[\s.\-/]/g, '').toUpperCase();
+      if (!/^[A-Z]{2}/.test(vatId)) {
+        if (!country) {
+          return {
+            issue: `${quote(value)} has no country prefix; pass a country to normalizers.vatId()`,
+          };
+        }
+        vatId = `${country}${vatId}`;
+      }
+
+      const prefix = vatId.slice(0, 2);
+      const format = VAT_ID_FORMATS[prefix] ?? /^[A-Z0-9]{2,13}$/;
+      if (!format.test(vatId.slice(2))) {
+        return { issue: `${quote(value)} is not a valid ${prefix} VAT id` };
+      }
+      return { value: vatId };
+    });
+  },
+};
+
+/**
+ * Normalizes the values of fields built with `normalizers` and appends the ones that
+ * cannot be read to `metadata.issues`. Results without an object are returned unchanged.
+ * @internal
+ */
+export function normalizeExtractResult<T>(
+  result: ExtractResult<T>,
+  schema: SchemaInput
+): ExtractResult<T> {
+  if (result.error !== null || !isZodSchema(schema)) {
+    return result;
+  }
+
+  const issues: string[] = [];
+  const object = normalizeValue(schema, result.object, [], issues) as T;
+  return {
+    ...result,
+    object,
+    metadata: { ...result.metadata, issues: [...result.metadata.issues, ...issues] },
+  };
+}
+
+function withNormalizer<S extends z.ZodTypeAny>(schema: S, normalizer: Normalizer): S {
+  Object.assign(definitionOf(schema), { [NORMALIZER]: normalizer });
+  return schema;
+}
+
+function getNormalizer(schema: ZodSchema): Normalizer | undefined {
+  return (definitionOf(schema) as { [NORMALIZER]?: Normalizer })[NORMALIZER];
+}
+
+/**
+ * The definition object of a schema. `zod` resolves to Zod 4 when the app installs it.
+ */
+function definitionOf(schema: ZodSchema): object {
+  return isZod4Schema(schema) ? schema._zod.def : schema._def;
+}
+
+/**
+ * Walks `value` alongside `schema`, normalizing the fields that have a normalizer.
+ */
+function normalizeValue(
+  schema: ZodSchema,
+  value: unknown,
+  path: Array<string | number>,
+  issues: string[]
+): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  const normalizer = getNormalizer(schema);
+  if (normalizer) {
+    const normalized = normalizer(value);
+    if ('issue' in normalized) {
+      issues.push(`${toJsonPath(path)}: ${normalized.issue}`);
+      return value;
+    }
+    return normalized.value;
+  }
+
+  const def = zodDef(schema);
+  switch (def.typeName) {
+    case 'ZodOptional':
+    case 'ZodNullable':
+    case 'ZodNonOptional':
+    case 'ZodDefault':
+    case 'ZodCatch':
+    case 'ZodReadonly':
+      return normalizeValue(def.innerType!, value, path, issues);
+    case 'ZodBranded':
+      return normalizeValue(def.type!, value, path, issues);
+    case 'ZodEffects':
+      return def.schema ? normalizeValue(def.schema, value, path, issues) : value;
+    case 'ZodPipeline':
+      return normalizeValue(def.in!, value, path, issues);
+    case 'ZodLazy':
+      return normalizeValue(def.getter!(), value, path, issues);
+
+    case 'ZodObject': {
+      if (!isPlainObject(value)) return value;
+      const result: Record<string, unknown> = { ...value };
+      for (const [key, fieldSchema] of Object.entries(def.shape!())) {
+        if (key in result) {
+          result[key] = normalizeValue(fieldSchema, result[key], [...path, key], issues);
+        }
+      }
+      return result;
+    }
+    case 'ZodArray':
+      return Array.isArray(value)
+        ? value.map((item, i) => normalizeValue(def.type!, item, [...path, i], issues))
+        : value;
+    case 'ZodTuple':
+      return Array.isArray(value)
+        ? value.map((item, i) =>
+            def.items![i] ? normalizeValue(def.items![i], item, [...path, i], issues) : item
+          )
+        : value;
+    case 'ZodRecord':
+      if (!isPlainObject(value)) return value;
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          normalizeValue(def.valueType!, item, [...path, key], issues),
+        ])
+      );
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Parses an amount, using the locale's decimal separator when one is given.
+ */
+function parseAmount(value: string, locale: string | undefined): number | null {
+  if (!locale) {
+    return parseNumberLike(value);
+  }
+  const decimal = new Intl.NumberFormat(locale)
+    .formatToParts(1.5)
+    .find((part) => part.type === 'decimal')?.value;
+  if (decimal !== ',') {
+    return parseNumberLike(value.replace(/,/g, ''));
+  }
+  // Dots are grouping only next to a decimal comma or in groups of three ("1.250", "1.250.000");
+  // otherwise the document used a decimal point after all ("1250.00")
+  const digits = value.replace(/[^\d.,]/g, '');
+  if (digits.includes(',') || /^\d{1,3}(\.\d{3})+$/.test(digits)) {
+    return parseNumberLike(value.replace(/\./g, '').replace(',', '.'));
+  }
+  return parseNumberLike(value);
+}
+
+/**
+ * Finds the currency of an amount from an ISO code or a currency symbol.
+ * A bare `$` is read as the default currency if it is a dollar currency, else as USD.
+ */
+function findCurrency(value: string, fallback: string | undefined): string | null {
+  for (const [, word] of value.matchAll(/(?:^|[^A-Za-z])([A-Za-z]{3})(?![A-Za-z])/g)) {
+    if (isCurrencyCode(word.toUpperCase())) return word.toUpperCase();
+  }
+  for (const [symbol, currency] of CURRENCY_SYMBOLS) {
+    if (value.includes(symbol)) return currency;
+  }
+  if (value.includes('$')) {
+    return fallback && DOLLAR_CURRENCIES.has(fallback) ? fallback : 'USD';
+  }
+  return null;
+}
+
+function isCurrencyCode(code: string): boolean {
+  const supported = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  return supported ? supported('currency').includes(code) : /^[A-Z]{3}$/.test(code);
+}
+
+/**
+ * Parses a date into `YYYY-MM-DD`. Returns an issue for unreadable or ambiguous dates.
+ */
+function parseDate(
+  value: string,
+  dayFirst: boolean | undefined,
+  locale: string | undefined
+): string | { issue: string } {
+  const text = value.trim();
+  let match: RegExpExecArray | null;
+
+  // Year first: 2024-02-01, 2024/2/1, 20240201, optionally followed by a time
+  match =
+    /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/.exec(text) ?? /^(\d{4})(\d{2})(\d{2})$/.exec(text);
+  if (match) {
+    return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]), value);
+  }
+
+  // Numeric day and month: 01/02/2024, 1.2.24, 01-02-2024
+  match = /^(\d{1,2})[-/.\s](\d{1,2})[-/.\s](\d{4}|\d{2})\.?$/.exec(text);
+  if (match) {
+    const [first, second, year] = [Number(match[1]), Number(match[2]), toFullYear(match[3])];
+    if (first > 12 || (first !== second && second <= 12 && dayFirst === true)) {
+      return toIsoDate(year, second, first, value);
+    }
+    if (second > 12 || first === second || dayFirst === false) {
+      return toIsoDate(year, first, second, value);
+    }
+    return { issue: `${quote(value)} is ambiguous; pass a locale to normalizers.date()` };
+  }
+
+  // Month names: 1 Feb 2024, 1st February 2024, 01-Feb-24, February 1, 2024
+  const months = monthNames(locale);
+  const dayMonthYear =
+    /^(\d{1,2})(?:st|nd|rd|th)?\.?[\s-]+([^\d\s,.-]+)\.?,?[\s-]+(\d{4}|\d{2})$/i.exec(text);
+  const monthDayYear = /^([^\d\s,.-]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i.exec(text);
+  if (dayMonthYear) {
+    const month = months.get(dayMonthYear[2].toLowerCase());
+    if (month) return toIsoDate(toFullYear(dayMonthYear[3]), month, Number(dayMonthYear[1]), value);
+  } else if (monthDayYear) {
+    const month = months.get(monthDayYear[1].toLowerCase());
+    if (month) return toIsoDate(Number(monthDayYear[3]), month, Number(monthDayYear[2]), value);
+  }
+
+  return { issue: `could not read ${quote(value)} as a date` };
+}
+
+function toIsoDate(
+  year: number,
+  month: number,
+  day: number,
+  value: string
+): string | { issue: string } {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return { issue: `${quote(value)} is not a valid date` };
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Expands two-digit years to 1950-2049.
+ */
+function toFullYear(year: string): number {
+  const value = Number(year);
+  return year.length === 2 ? (value < 50 ? 2000 + value : 1900 + value) : value;
+}
+
+/**
+ * Whether the locale writes numeric dates with the day before the month.
+ */
+function isDayFirst(locale: string): boolean {
+  const parts = new Intl.DateTimeFormat(locale).formatToParts(new Date(Date.UTC(2024, 11, 31)));
+  const type = parts.find((part) => part.type === 'day' || part.type === 'month')?.type;
+  return type === 'day';
+}
+
+/**
+ * Lowercase month names and abbreviations in English and the given locale, mapped to 1-12.
+ */
+function monthNames(locale: string | undefined): Map<string, number> {
+  const names = new Map<string, number>();
+  for (const language of locale ? ['en', locale] : ['en']) {
+    for (const month of ['long', 'short'] as const) {
+      const format = new Intl.DateTimeFormat(language, { month, timeZone: 'UTC' });
+      for (let index = 0; index < 12; index++) {
+        const name = format
+          .format(new Date(Date.UTC(2024, index, 1)))
+          .toLowerCase()
+          .replace(/\.$/, '');
+        names.set(name, index + 1);
+      }
+    }
+  }
+  names.set('sept', 9);
+  return names;
+}
+
+/**
+ * Verifies the ISO 13616 mod-97 check digits of an IBAN.
+ */
+function hasValidIbanChecksum(iban: string): boolean {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+function quote(value: unknown): string {
+  return typeof value === 'string' ? JSON.stringify(value) : String(JSON.stringify(value) ?? value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
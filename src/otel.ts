@@ -0,0 +1,133 @@
+import type { ExtractTimings, ParsefyHooks } from './types';
+
+/**
+ * Attribute values accepted by OpenTelemetry spans.
+ */
+export type OtelAttributes = Record<string, string | number | boolean | undefined>;
+
+/**
+ * The subset of an OpenTelemetry `Span` used by `otelHooks`.
+ * Spans from `@opentelemetry/api` satisfy it.
+ */
+export interface OtelSpan {
+  setAttributes(attributes: OtelAttributes): unknown;
+  addEvent(name: string, attributes?: OtelAttributes): unknown;
+  recordException(exception: Error): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(endTime?: number): unknown;
+}
+
+/**
+ * The subset of an OpenTelemetry `Tracer` used by `otelHooks`.
+ * Tracers from `@opentelemetry/api` satisfy it.
+ */
+export interface OtelTracer {
+  startSpan(name: string, options?: { attributes?: OtelAttributes; startTime?: number }): OtelSpan;
+}
+
+/**
+ * Options for `otelHooks`.
+ */
+export interface OtelHooksOptions {
+  /** Span name. Defaults to `parsefy.extract`. */
+  spanName?: string;
+  /** Attributes added to every span, e.g. `{ 'service.tenant': 'acme' }`. */
+  attributes?: OtelAttributes;
+}
+
+// SpanStatusCode values from @opentelemetry/api
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+/**
+ * Creates hooks that record every extraction as an OpenTelemetry span, without
+ * depending on `@opentelemetry/api`: pass any tracer with a compatible `startSpan`.
+ *
+ * Each span carries the credits, confidence score, fallback, verification status,
+ * cache hit and step timings of the extraction (`parsefy.*` attributes), with HTTP
+ * attempts and retries recorded as span events. Failed extractions set an error status.
+ *
+ * @example
+ * ```ts
+ * import { trace } from '@opentelemetry/api';
+ *
+ * const client = new Parsefy({ hooks: otelHooks(trace.getTracer('billing-pipeline')) });
+ * ```
+ */
+export function otelHooks(tracer: OtelTracer, options: OtelHooksOptions = {}): ParsefyHooks {
+  const { spanName = 'parsefy.extract', attributes = {} } = options;
+  const spans = new Map<string, OtelSpan>();
+
+  return {
+    onExtractStart({ extractId, tag, batchIndex, startedAt }) {
+      spans.set(
+        extractId,
+        tracer.startSpan(spanName, {
+          startTime: startedAt,
+          attributes: {
+            ...attributes,
+            'parsefy.extract_id': extractId,
+            'parsefy.tag': tag,
+            'parsefy.batch_index': batchIndex,
+          },
+        })
+      );
+    },
+    onRequestStart({ extractId, attempt, url }) {
+      spans.get(extractId)?.addEvent('parsefy.request', {
+        'parsefy.attempt': attempt,
+        'url.full': url,
+      });
+    },
+    onResponse({ extractId, attempt, status, durationMs }) {
+      spans.get(extractId)?.addEvent('parsefy.response', {
+        'parsefy.attempt': attempt,
+        'http.response.status_code': status,
+        'parsefy.duration_ms': durationMs,
+      });
+    },
+    onRetry({ extractId, attempt, delayMs, error }) {
+      spans.get(extractId)?.addEvent('parsefy.retry', {
+        'parsefy.retry': attempt,
+        'parsefy.retry_delay_ms': delayMs,
+        'error.type': error.code ?? error.name,
+      });
+    },
+    onExtractComplete({ extractId, result, timings }) {
+      const span = spans.get(extractId);
+      if (!span) return;
+      spans.delete(extractId);
+
+      const { metadata, verification, cache, error } = result;
+      span.setAttributes({
+        'parsefy.credits': metadata.credits,
+        'parsefy.confidence_score': metadata.confidence_score,
+        'parsefy.fallback_triggered': metadata.fallback_triggered,
+        'parsefy.processing_time_ms': metadata.processing_time_ms,
+        'parsefy.verification.status': verification?.status,
+        'parsefy.cache.hit': cache?.hit,
+        'parsefy.error.code': error?.code,
+        ...timingAttributes(timings),
+      });
+      // Extraction errors are results, not exceptions, but still mark the span as failed
+      span.setStatus(error ? { code: STATUS_ERROR, message: error.message } : { code: STATUS_OK });
+      span.end();
+    },
+    onError({ extractId, error, phase, timings }) {
+      const span = spans.get(extractId);
+      if (!span) return;
+      spans.delete(extractId);
+
+      span.setAttributes({ 'parsefy.failed_phase': phase, ...timingAttributes(timings) });
+      span.recordException(error);
+      span.setStatus({ code: STATUS_ERROR, message: error.message });
+      span.end();
+    },
+  };
+}
+
+function timingAttributes(timings: ExtractTimings): OtelAttributes {
+  return Object.fromEntries(
+    Object.entries(timings).map(([phase, ms]) => [`parsefy.timing.${phase}_ms`, ms])
+  );
+}
@@ -0,0 +1,226 @@
+import type { ExtractResult, PageSelection, SplitStrategy } from './types';
+import { ValidationError } from './errors';
+
+type PdfLib = typeof import('pdf-lib');
+type PdfDocument = import('pdf-lib').PDFDocument;
+
+/**
+ * Part of a PDF: its bytes and the pages of the original document it holds (1-based).
+ * @internal
+ */
+export interface PdfPart {
+  content: Blob;
+  pages: number[];
+}
+
+/**
+ * Resolves a page selection against a document's page count.
+ * Returns 1-based page numbers in the order given, without duplicates.
+ * @internal
+ */
+export function resolvePageSelection(selection: PageSelection, pageCount: number): number[] {
+  const pages: number[] = [];
+  const check = (page: number, label: string | number) => {
+    if (!Number.isInteger(page) || page < 1 || page > pageCount) {
+      throw new ValidationError(
+        `Page ${label} is outside the document, which has ${pageCount} page${pageCount === 1 ? '' : 's'}`
+      );
+    }
+  };
+  const add = (page: number, label: string | number) => {
+    check(page, label);
+    if (!pages.includes(page)) pages.push(page);
+  };
+
+  if (typeof selection === 'string') {
+    for (const part of selection.split(',').map((item) => item.trim()).filter(Boolean)) {
+      const match = /^(\d*)\s*-\s*(\d*)$/.exec(part);
+      if (/^\d+$/.test(part)) {
+        add(Number(part), part);
+      } else if (match && (match[1] || match[2])) {
+        // Open ranges run from the first page ("-3") or to the last page ("10-")
+        const from = match[1] ? Number(match[1]) : 1;
+        const to = match[2] ? Number(match[2]) : pageCount;
+        if (from > to) {
+          throw new ValidationError(`Invalid page range "${part}": the start is after the end`);
+        }
+        check(from, part);
+        check(to, part);
+        for (let page = from; page <= to; page++) add(page, part);
+      } else {
+        throw new ValidationError(`Invalid page range "${part}". Use page numbers and ranges like "1-3,7,10-"`);
+      }
+    }
+  } else {
+    for (const page of selection) add(page, page);
+  }
+
+  if (pages.length === 0) {
+    throw new ValidationError('The page selection is empty');
+  }
+  return pages;
+}
+
+/**
+ * Trims a PDF to the selected pages. Returns the content unchanged if every page is selected in order.
+ * @internal
+ */
+export async function selectPdfPages<C extends Blob | Uint8Array>(
+  content: C,
+  selection: PageSelection
+): Promise<{ content: C | Blob; pages: number[] }> {
+  const pdfLib = await loadPdfLib();
+  const document = await loadPdf(pdfLib, content);
+  const pageCount = document.getPageCount();
+  const pages = resolvePageSelection(selection, pageCount);
+
+  if (pages.length === pageCount && pages.every((page, index) => page === index + 1)) {
+    return { content, pages };
+  }
+  return { content: await copyPdfPages(pdfLib, document, pages), pages };
+}
+
+/**
+ * Splits a PDF bundle into one part per document, as described by `strategy`.
+ * @internal
+ */
+export async function splitPdf(content: Blob | Uint8Array, strategy: SplitStrategy): Promise<PdfPart[]> {
+  const pdfLib = await loadPdfLib();
+  const document = await loadPdf(pdfLib, content);
+  const pageCount = document.getPageCount();
+
+  let segments: number[][];
+  if ('ranges' in strategy) {
+    segments = strategy.ranges.map((range) => resolvePageSelection(range, pageCount));
+  } else if ('every' in strategy) {
+    if (!Number.isInteger(strategy.every) || strategy.every < 1) {
+      throw new ValidationError('split.every must be a positive integer');
+    }
+    segments = [];
+    for (let first = 1; first <= pageCount; first += strategy.every) {
+      const last = Math.min(first + strategy.every - 1, pageCount);
+      segments.push(Array.from({ length: last - first + 1 }, (_, offset) => first + offset));
+    }
+  } else if (strategy.separator === 'blank') {
+    // Blank pages end a document and are dropped; runs of blank pages count as one separator
+    segments = [[]];
+    document.getPages().forEach((page, index) => {
+      if (isBlankPage(pdfLib, page, index + 1)) {
+        if (segments[segments.length - 1].length > 0) segments.push([]);
+      } else {
+        segments[segments.length - 1].push(index + 1);
+      }
+    });
+    segments = segments.filter((segment) => segment.length > 0);
+  } else {
+    throw new ValidationError('split must have `ranges`, `every` or `separator`');
+  }
+
+  if (segments.length === 0) {
+    throw new ValidationError('The document has no pages to extract');
+  }
+
+  const parts: PdfPart[] = [];
+  for (const pages of segments) {
+    parts.push({ content: await copyPdfPages(pdfLib, document, pages), pages });
+  }
+  return parts;
+}
+
+/**
+ * Maps the page numbers in `field_confidence` from an uploaded part back to the original document.
+ * @internal
+ */
+export function remapPages<T>(
+  result: ExtractResult<T>,
+  pages: number[] | undefined
+): ExtractResult<T> {
+  if (!pages) return result;
+  return {
+    ...result,
+    metadata: {
+      ...result.metadata,
+      field_confidence: result.metadata.field_confidence.map((fc) => ({
+        ...fc,
+        page: pages[fc.page - 1] ?? fc.page,
+      })),
+    },
+  };
+}
+
+async function loadPdf(pdfLib: PdfLib, content: Blob | Uint8Array): Promise<PdfDocument> {
+  const bytes = content instanceof Uint8Array ? content : new Uint8Array(await content.arrayBuffer());
+  try {
+    return await pdfLib.PDFDocument.load(bytes, { updateMetadata: false });
+  } catch (error) {
+    throw new ValidationError(
+      `Failed to read PDF pages: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+async function copyPdfPages(
+  pdfLib: PdfLib,
+  source: PdfDocument,
+  pages: number[]
+): Promise<Blob> {
+  const target = await pdfLib.PDFDocument.create({ updateMetadata: false });
+  const copied = await target.copyPages(
+    source,
+    pages.map((page) => page - 1)
+  );
+  copied.forEach((page) => target.addPage(page));
+  // slice() copies into a fresh ArrayBuffer, which every TypeScript version accepts as a BlobPart
+  return new Blob([(await target.save()).slice()], { type: 'application/pdf' });
+}
+
+/**
+ * Operators that put something on the page: text, images and forms, shadings and path painting.
+ */
+const PAINTING_OPERATOR = /(?:^|[\s\])>])(?:Tj|TJ|'|"|Do|sh|BI|f\*?|F|B\*?|b\*?|S|s)(?=[\s[(<\/]|$)/;
+
+/**
+ * Checks whether a page draws nothing. Scanned blank sheets are images, so they do not count.
+ * @param pageNumber - 1-based page number, for error messages.
+ */
+function isBlankPage(
+  pdfLib: PdfLib,
+  page: import('pdf-lib').PDFPage,
+  pageNumber: number
+): boolean {
+  const { PDFArray, PDFRawStream, decodePDFRawStream } = pdfLib;
+  const contents = page.node.Contents();
+  if (!contents) return true;
+
+  const streams =
+    contents instanceof PDFArray
+      ? Array.from({ length: contents.size() }, (_, index) => contents.lookup(index))
+      : [contents];
+
+  return streams.every((stream) => {
+    if (!(stream instanceof PDFRawStream)) return true;
+    let operators: string;
+    try {
+      operators = new TextDecoder('latin1').decode(decodePDFRawStream(stream).decode());
+    } catch (error) {
+      throw new ValidationError(
+        `Failed to read PDF page ${pageNumber}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    return !PAINTING_OPERATOR.test(operators);
+  });
+}
+
+/**
+ * Loads the optional `pdf-lib` dependency.
+ */
+async function loadPdfLib(): Promise<PdfLib> {
+  try {
+    return await import('pdf-lib');
+  } catch {
+    throw new ValidationError(
+      'Page selection requires the optional "pdf-lib" package. Install it with: npm install pdf-lib',
+      'MISSING_DEPENDENCY'
+    );
+  }
+}
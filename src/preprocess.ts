@@ -0,0 +1,117 @@
+import type { ImagePreprocessOptions, SupportedMimeType } from './types';
+import { DEFAULT_PREPROCESS_OPTIONS } from './types';
+import { ValidationError } from './errors';
+
+/**
+ * Image MIME types that can be preprocessed.
+ * @internal
+ */
+export type ImageMimeType = Extract<SupportedMimeType, `image/${string}`>;
+
+/**
+ * Checks whether a MIME type is an image format.
+ * @internal
+ */
+export function isImageMimeType(mimeType: SupportedMimeType): mimeType is ImageMimeType {
+  return mimeType.startsWith('image/');
+}
+
+/**
+ * Rotates, downscales and re-encodes an image with `sharp` (Node.js only).
+ *
+ * PNG, JPEG and TIFF keep their format. HEIC is converted to JPEG, since it
+ * cannot be re-encoded. Multi-page TIFFs keep every page unless `tiffPages` is `'first'`;
+ * TIFFs whose pages differ in size are passed through unchanged.
+ * @internal
+ */
+export async function preprocessImage(
+  content: Blob | Buffer,
+  mimeType: ImageMimeType,
+  options: ImagePreprocessOptions = {}
+): Promise<{ content: Buffer; mimeType: ImageMimeType }> {
+  const { autoRotate, maxDimension, tiffPages, quality } = {
+    ...DEFAULT_PREPROCESS_OPTIONS,
+    ...options,
+  };
+  const sharp = await loadSharp();
+
+  const input =
+    content instanceof Blob ? Buffer.from(await content.arrayBuffer()) : content;
+  const allPages = mimeType === 'image/tiff' && tiffPages === 'all';
+
+  try {
+    if (allPages && !(await hasUniformPages(sharp, input))) {
+      // libvips can only load pages of the same size as one image; send these unchanged
+      return { content: input, mimeType };
+    }
+
+    let image = sharp(input, { pages: allPages ? -1 : 1 });
+
+    if (autoRotate) {
+      // Without arguments, rotate() applies the EXIF orientation and strips it
+      image = image.rotate();
+    }
+
+    // Multi-page input is loaded as one strip of equal-height pages; sharp sizes
+    // each page against maxDimension using the pageHeight metadata
+    image = image.resize({
+      width: maxDimension,
+      height: maxDimension,
+      fit: 'inside',
+      withoutEnlargement: true,
+    });
+
+    switch (mimeType) {
+      case 'image/png':
+        return { content: await image.png().toBuffer(), mimeType };
+      case 'image/tiff':
+        return {
+          content: await image.tiff({ compression: 'jpeg', quality }).toBuffer(),
+          mimeType,
+        };
+      default:
+        return {
+          content: await image.jpeg({ quality, mozjpeg: true }).toBuffer(),
+          mimeType: 'image/jpeg',
+        };
+    }
+  } catch (error) {
+    throw new ValidationError(
+      `Failed to preprocess ${mimeType} image: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Checks whether every page of a multi-page TIFF has the same dimensions, which
+ * sharp requires to load and resize them together.
+ * @internal
+ */
+async function hasUniformPages(
+  sharp: typeof import('sharp'),
+  input: Buffer
+): Promise<boolean> {
+  try {
+    await sharp(input, { pages: -1 }).metadata();
+    return true;
+  } catch {
+    // Still reject input that is not a readable TIFF at all
+    await sharp(input).metadata();
+    return false;
+  }
+}
+
+/**
+ * Loads the optional `sharp` dependency.
+ * @internal
+ */
+async function loadSharp(): Promise<typeof import('sharp')> {
+  try {
+    return (await import('sharp')).default;
+  } catch {
+    throw new ValidationError(
+      'Image preprocessing requires the optional "sharp" package (Node.js only). Install it with: npm install sharp',
+      'MISSING_DEPENDENCY'
+    );
+  }
+}
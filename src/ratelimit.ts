@@ -0,0 +1,212 @@
+import type { RateLimiterOptions, RateLimiterStats } from './types';
+import { DEFAULT_RATE_LIMIT } from './types';
+import { ParsefyError, ValidationError } from './errors';
+import { parseRetryAfter } from './utils';
+
+/**
+ * A request waiting for a slot.
+ */
+interface Waiter {
+  priority: number;
+  enqueuedAt: number;
+  resolve: (slot: RateLimitSlot) => void;
+}
+
+/**
+ * A slot granted by `RateLimiter.acquire`.
+ * @internal
+ */
+export interface RateLimitSlot {
+  /** Time spent in the queue, in milliseconds. */
+  waitedMs: number;
+  /** Frees the concurrency slot. Safe to call more than once. */
+  release: () => void;
+}
+
+/**
+ * Client-side rate limiter that queues API requests before they are sent, so workers
+ * sharing one API key stay under its rate limit instead of running into 429 responses.
+ *
+ * Requests are let through by a token bucket (`requestsPerSecond`, with bursts of up to
+ * `burst` requests) and at most `maxConcurrent` at a time, highest `priority` first.
+ * When a response reports the limit was reached (`429` with `Retry-After`, or a
+ * `RateLimit-Remaining: 0` header), all queued requests pause until it resets.
+ *
+ * Share one limiter between clients in a process by passing it as the `rateLimit` option.
+ *
+ * @example
+ * ```ts
+ * const limiter = new RateLimiter({ requestsPerSecond: 1, maxConcurrent: 4 });
+ * const a = new Parsefy({ apiKey, rateLimit: limiter });
+ * const b = new Parsefy({ apiKey, rateLimit: limiter });
+ *
+ * setInterval(() => {
+ *   const { queued, averageWaitMs } = limiter.stats();
+ *   metrics.gauge('parsefy.queue_depth', queued);
+ * }, 10_000);
+ * ```
+ */
+export class RateLimiter {
+  private readonly ratePerMs: number;
+  private readonly burst: number;
+  private readonly maxConcurrent: number;
+  private readonly maxQueueSize: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private active = 0;
+  private queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private started = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+  private throttled = 0;
+
+  constructor(options: RateLimiterOptions = {}) {
+    const { requestsPerSecond, burst, maxConcurrent, maxQueueSize } = {
+      ...DEFAULT_RATE_LIMIT,
+      ...options,
+    };
+    for (const [name, value] of Object.entries({ requestsPerSecond, burst, maxConcurrent, maxQueueSize })) {
+      if (!(value > 0)) {
+        throw new ValidationError(`rateLimit.${name} must be a positive number`);
+      }
+    }
+    if (!Number.isInteger(burst) || burst < 1) {
+      throw new ValidationError('rateLimit.burst must be a positive integer');
+    }
+
+    this.ratePerMs = requestsPerSecond / 1000;
+    this.burst = burst;
+    this.maxConcurrent = maxConcurrent;
+    this.maxQueueSize = maxQueueSize;
+    this.tokens = burst;
+  }
+
+  /**
+   * Returns the current queue depth and wait times, e.g. for monitoring.
+   */
+  stats(): RateLimiterStats {
+    const stats: RateLimiterStats = {
+      queued: this.queue.length,
+      active: this.active,
+      started: this.started,
+      averageWaitMs: this.started > 0 ? this.totalWaitMs / this.started : 0,
+      maxWaitMs: this.maxWaitMs,
+      throttled: this.throttled,
+    };
+    if (this.pausedUntil > Date.now()) {
+      stats.pausedUntil = this.pausedUntil;
+    }
+    return stats;
+  }
+
+  /**
+   * Waits for a slot to send a request. Higher priorities are served first, then in call order.
+   * Throws a `ParsefyError` with code `QUEUE_FULL` if `maxQueueSize` requests are already waiting.
+   * @internal
+   */
+  acquire(priority = 0): Promise<RateLimitSlot> {
+    if (this.queue.length >= this.maxQueueSize) {
+      return Promise.reject(
+        new ParsefyError(
+          `Rate limiter queue is full (${this.maxQueueSize} requests waiting)`,
+          'QUEUE_FULL'
+        )
+      );
+    }
+
+    return new Promise((resolve) => {
+      const waiter: Waiter = { priority, enqueuedAt: Date.now(), resolve };
+      // Keep the queue sorted by priority, first come first served within a priority
+      const index = this.queue.findIndex((queued) => queued.priority < priority);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, waiter);
+      this.pump();
+    });
+  }
+
+  /**
+   * Adapts to the rate-limit headers of a response, pausing the queue until the limit resets.
+   * @internal
+   */
+  update(status: number, headers: Headers): void {
+    let pauseMs = 0;
+
+    if (status === 429) {
+      pauseMs = parseRetryAfter(headers.get('Retry-After')) ?? 1 / this.ratePerMs;
+    }
+
+    const remaining = headers.get('RateLimit-Remaining') ?? headers.get('X-RateLimit-Remaining');
+    if (remaining !== null && Number(remaining) <= 0) {
+      const reset = parseResetHeader(headers.get('RateLimit-Reset') ?? headers.get('X-RateLimit-Reset'));
+      pauseMs = Math.max(pauseMs, reset ?? 0);
+    }
+
+    if (pauseMs > 0) {
+      this.throttled++;
+      this.tokens = 0;
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + pauseMs);
+      this.pump();
+    }
+  }
+
+  /**
+   * Grants slots to queued requests while tokens and concurrency allow,
+   * and schedules itself for when the next token is due.
+   */
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.queue.length > 0 && this.active < this.maxConcurrent) {
+      const now = Date.now();
+      this.tokens = Math.min(this.burst, this.tokens + (now - this.lastRefill) * this.ratePerMs);
+      this.lastRefill = now;
+
+      const waitMs = Math.max(
+        this.pausedUntil - now,
+        this.tokens >= 1 ? 0 : (1 - this.tokens) / this.ratePerMs
+      );
+      if (waitMs > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.pump();
+        }, Math.ceil(waitMs));
+        return;
+      }
+
+      const waiter = this.queue.shift()!;
+      const waitedMs = now - waiter.enqueuedAt;
+      this.tokens -= 1;
+      this.active++;
+      this.started++;
+      this.totalWaitMs += waitedMs;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waitedMs);
+
+      let released = false;
+      waiter.resolve({
+        waitedMs,
+        release: () => {
+          if (released) return;
+          released = true;
+          this.active--;
+          this.pump();
+        },
+      });
+    }
+  }
+}
+
+/**
+ * Parses a rate-limit reset header into milliseconds from now. Small values are
+ * seconds until the reset, large ones a Unix timestamp in seconds.
+ */
+function parseResetHeader(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const value = Number(header);
+  if (!Number.isFinite(value) || value < 0) return undefined;
+  // Nobody resets a rate limit more than a year from now
+  return value > 31_536_000 ? Math.max(0, value * 1000 - Date.now()) : value * 1000;
+}
@@ -0,0 +1,353 @@
+import type { ExtractResult, FieldConfidence, VerificationCheck } from './types';
+import { DEFAULT_CONFIDENCE_THRESHOLD } from './types';
+import { ValidationError } from './errors';
+import { isNode, prepareFile } from './utils';
+import { listFieldValues } from './fields';
+
+/**
+ * Options for rendering a review report.
+ */
+export interface ReportOptions {
+  /** Page title. Defaults to the source file name or "Extraction review". */
+  title?: string;
+  /** Fields scored below this threshold are highlighted. Defaults to 0.85. */
+  threshold?: number;
+  /** Source document embedded next to the results (PDF and images are previewed inline). */
+  source?: File | Blob | Buffer | string;
+}
+
+/**
+ * A result entry in a batch report.
+ */
+export interface ReportEntry {
+  /** Display name of the document (e.g. its file name). */
+  name: string;
+  /** The extraction result. */
+  result: ExtractResult<unknown>;
+  /** Source document embedded in the document's own report. */
+  source?: File | Blob | Buffer | string;
+}
+
+/**
+ * Reasons a result needs human review.
+ */
+export interface ReviewReasons {
+  /** Fields scored below the threshold. */
+  lowConfidence: FieldConfidence[];
+  /** Whether the fallback model was triggered. */
+  fallback: boolean;
+  /** Verification checks that failed. */
+  failedChecks: VerificationCheck[];
+  /** Whether extraction failed. */
+  error: boolean;
+}
+
+/**
+ * Lists why a result needs human review: low-confidence fields, fallback usage,
+ * failed verification checks or an extraction error.
+ * Returns null if the result can be accepted as is.
+ */
+export function needsReview(
+  result: ExtractResult<unknown>,
+  threshold = DEFAULT_CONFIDENCE_THRESHOLD
+): ReviewReasons | null {
+  const reasons: ReviewReasons = {
+    lowConfidence: result.metadata.field_confidence.filter((fc) => fc.score < threshold),
+    fallback: result.metadata.fallback_triggered,
+    failedChecks: (result.verification?.checks_run ?? []).filter(
+      (check) => !check.passed && check.status !== 'CANNOT_VERIFY'
+    ),
+    error: result.error !== null,
+  };
+
+  const flagged =
+    reasons.lowConfidence.length > 0 ||
+    reasons.fallback ||
+    reasons.failedChecks.length > 0 ||
+    reasons.error;
+  return flagged ? reasons : null;
+}
+
+/**
+ * Renders an extraction result as a standalone HTML review page.
+ *
+ * Each extracted value is shown with its score, reason, page and evidence text.
+ * Fields below the threshold, fallback usage and failed verification checks are highlighted.
+ *
+ * @example
+ * ```ts
+ * const html = await renderReport(result, { source: './invoice.pdf', threshold: 0.9 });
+ * await fs.promises.writeFile('invoice.review.html', html);
+ * ```
+ */
+export async function renderReport(
+  result: ExtractResult<unknown>,
+  options: ReportOptions = {}
+): Promise<string> {
+  const threshold = options.threshold ?? DEFAULT_CONFIDENCE_THRESHOLD;
+  const source = options.source ? await embedSource(options.source) : null;
+  const title = options.title || source?.name || 'Extraction review';
+  const { metadata, verification, error } = result;
+  const review = needsReview(result, threshold);
+
+  const badges = [
+    badge(review ? 'Needs review' : 'OK', review ? 'bad' : 'good'),
+    badge(`Confidence ${formatScore(metadata.confidence_score)}`, metadata.confidence_score < threshold ? 'bad' : 'neutral'),
+    badge(`${metadata.credits} credit${metadata.credits === 1 ? '' : 's'}`, 'neutral'),
+    badge(`${metadata.processing_time_ms} ms`, 'neutral'),
+    metadata.fallback_triggered ? badge('Fallback model used', 'warn') : '',
+    verification ? badge(`Verification ${verification.status}`, verification.status === 'PASSED' ? 'good' : verification.status === 'NO_RULES' ? 'neutral' : 'bad') : '',
+  ].join('');
+
+  const sections = [
+    `<header><h1>${escapeHtml(title)}</h1><div class="badges">${badges}</div></header>`,
+    error
+      ? `<section class="error"><h2>Extraction failed</h2><p><code>${escapeHtml(error.code)}</code> ${escapeHtml(error.message)}</p></section>`
+      : '',
+    renderFields(result, threshold),
+    renderVerification(result),
+    metadata.issues.length > 0
+      ? `<section><h2>Issues</h2><ul>${metadata.issues.map((issue) => `<li>${escapeHtml(issue)}</li>`).join('')}</ul></section>`
+      : '',
+  ].join('\n');
+
+  const body = source
+    ? `<div class="split"><main>${sections}</main><aside>${source.html}</aside></div>`
+    : `<main>${sections}</main>`;
+
+  return page(title, body);
+}
+
+/**
+ * Renders an index page linking many reports, documents needing review first.
+ *
+ * @param entries - One entry per document, with the link to its report in `href`.
+ */
+export function renderReportIndex(
+  entries: Array<{ name: string; href: string; result: ExtractResult<unknown> }>,
+  options: Pick<ReportOptions, 'title' | 'threshold'> = {}
+): string {
+  const threshold = options.threshold ?? DEFAULT_CONFIDENCE_THRESHOLD;
+  const title = options.title || 'Extraction review';
+
+  const rows = entries
+    .map((entry) => ({ ...entry, review: needsReview(entry.result, threshold) }))
+    .sort((a, b) => Number(b.review !== null) - Number(a.review !== null))
+    .map(({ name, href, result, review }) => {
+      const status = result.verification?.status ?? '–';
+      return `<tr class="${review ? 'flagged' : ''}">
+<td><a href="${escapeHtml(href)}">${escapeHtml(name)}</a></td>
+<td>${review ? badge('Needs review', 'bad') : badge('OK', 'good')}</td>
+<td class="num">${formatScore(result.metadata.confidence_score)}</td>
+<td class="num">${review?.lowConfidence.length ?? 0}</td>
+<td>${result.metadata.fallback_triggered ? 'yes' : 'no'}</td>
+<td>${escapeHtml(status)}</td>
+<td class="num">${result.metadata.credits}</td>
+<td>${result.error ? `<code>${escapeHtml(result.error.code)}</code>` : ''}</td>
+</tr>`;
+    })
+    .join('\n');
+
+  const flagged = entries.filter((entry) => needsReview(entry.result, threshold)).length;
+
+  return page(
+    title,
+    `<main><header><h1>${escapeHtml(title)}</h1><div class="badges">${badge(`${entries.length} documents`, 'neutral')}${badge(`${flagged} need review`, flagged > 0 ? 'bad' : 'good')}</div></header>
+<table><thead><tr><th>Document</th><th>Status</th><th>Confidence</th><th>Low-confidence fields</th><th>Fallback</th><th>Verification</th><th>Credits</th><th>Error</th></tr></thead>
+<tbody>${rows}</tbody></table></main>`
+  );
+}
+
+/**
+ * Writes one report per result plus an `index.html` linking them all (Node.js only).
+ * Returns the path of the index page.
+ *
+ * @example
+ * ```ts
+ * const results = await client.extractBatch({ files, schema });
+ * await writeReports('./review', results.flatMap((item) =>
+ *   item.status === 'fulfilled' ? [{ name: files[item.index], result: item.result, source: files[item.index] }] : []
+ * ));
+ * ```
+ */
+export async function writeReports(
+  dir: string,
+  entries: ReportEntry[],
+  options: Pick<ReportOptions, 'title' | 'threshold'> = {}
+): Promise<string> {
+  if (!isNode()) {
+    throw new ValidationError('Writing reports is only supported in Node.js');
+  }
+  const fs = await import('fs');
+  const path = await import('path');
+
+  await fs.promises.mkdir(dir, { recursive: true });
+
+  const used = new Set<string>();
+  const links: Array<{ name: string; href: string; result: ExtractResult<unknown> }> = [];
+
+  for (const entry of entries) {
+    // Derive a unique, filesystem-safe report name from the document name
+    const base = path.basename(entry.name).replace(/[^\w.-]+/g, '_') || 'document';
+    let href = `${base}.html`;
+    for (let i = 2; used.has(href); i++) {
+      href = `${base}-${i}.html`;
+    }
+    used.add(href);
+
+    const html = await renderReport(entry.result, {
+      title: entry.name,
+      threshold: options.threshold,
+      source: entry.source,
+    });
+    await fs.promises.writeFile(path.join(dir, href), html);
+    links.push({ name: entry.name, href, result: entry.result });
+  }
+
+  const indexPath = path.join(dir, 'index.html');
+  await fs.promises.writeFile(indexPath, renderReportIndex(links, options));
+  return indexPath;
+}
+
+function renderFields(result: ExtractResult<unknown>, threshold: number): string {
+  const confidence = new Map(result.metadata.field_confidence.map((fc) => [fc.field, fc]));
+  const values = result.object === null ? [] : listFieldValues(result.object);
+  const seen = new Set(values.map((entry) => entry.field));
+
+  // Confidence reported for fields that are not in the object (e.g. null or removed values)
+  const extra = result.metadata.field_confidence
+    .filter((fc) => !seen.has(fc.field))
+    .map((fc) => ({ field: fc.field, value: undefined as unknown }));
+
+  const rows = [...values, ...extra]
+    .map(({ field, value }) => {
+      const fc = confidence.get(field);
+      const low = fc !== undefined && fc.score < threshold;
+      const missing = value === null || value === undefined;
+      return `<tr class="${low ? 'flagged' : ''}">
+<td><code>${escapeHtml(field)}</code></td>
+<td class="${missing ? 'muted' : ''}">${missing ? 'null' : escapeHtml(formatValue(value))}</td>
+<td class="num">${fc ? `<span class="score ${low ? 'bad' : 'good'}">${formatScore(fc.score)}</span>` : ''}</td>
+<td>${escapeHtml(fc?.reason ?? '')}</td>
+<td class="num">${fc?.page ?? ''}</td>
+<td class="evidence">${fc?.text ? `<q>${escapeHtml(fc.text)}</q>` : ''}</td>
+</tr>`;
+    })
+    .join('\n');
+
+  return `<section><h2>Fields</h2>
+<table><thead><tr><th>Field</th><th>Value</th><th>Score</th><th>Reason</th><th>Page</th><th>Evidence</th></tr></thead>
+<tbody>${rows || '<tr><td colspan="6" class="muted">No fields extracted</td></tr>'}</tbody></table></section>`;
+}
+
+function renderVerification(result: ExtractResult<unknown>): string {
+  const { verification } = result;
+  if (!verification) return '';
+
+  const rows = verification.checks_run
+    .map((check) => {
+      const failed = !check.passed && check.status !== 'CANNOT_VERIFY';
+      return `<tr class="${failed ? 'flagged' : ''}">
+<td>${escapeHtml(check.type)}</td>
+<td>${badge(check.passed ? 'PASSED' : check.status, check.passed ? 'good' : failed ? 'bad' : 'warn')}</td>
+<td>${check.fields.map((field) => `<code>${escapeHtml(field)}</code>`).join(' ')}</td>
+<td class="num">${check.expected}</td>
+<td class="num">${check.actual}</td>
+<td class="num">${check.delta}</td>
+</tr>`;
+    })
+    .join('\n');
+
+  return `<section><h2>Verification</h2>
+<p>${verification.checks_passed} passed, ${verification.checks_failed} failed, ${verification.cannot_verify_count} cannot verify</p>
+<table><thead><tr><th>Check</th><th>Result</th><th>Fields</th><th>Expected</th><th>Actual</th><th>Delta</th></tr></thead>
+<tbody>${rows || '<tr><td colspan="6" class="muted">No checks run</td></tr>'}</tbody></table></section>`;
+}
+
+/**
+ * Inlines the source document as a data URL, previewing PDFs and images.
+ */
+async function embedSource(
+  input: File | Blob | Buffer | string
+): Promise<{ name: string; html: string }> {
+  const file = await prepareFile(input);
+  const name = typeof File !== 'undefined' && file instanceof File ? file.name : 'document';
+  const dataUrl = `data:${file.type};base64,${toBase64(new Uint8Array(await file.arrayBuffer()))}`;
+
+  let preview: string;
+  if (file.type === 'application/pdf') {
+    preview = `<iframe src="${dataUrl}" title="${escapeHtml(name)}"></iframe>`;
+  } else if (file.type.startsWith('image/') && file.type !== 'image/tiff' && file.type !== 'image/heic') {
+    preview = `<img src="${dataUrl}" alt="${escapeHtml(name)}">`;
+  } else {
+    preview = '<p class="muted">No inline preview for this file type.</p>';
+  }
+
+  return {
+    name,
+    html: `<h2>Source</h2>${preview}<p><a download="${escapeHtml(name)}" href="${dataUrl}">Download ${escapeHtml(name)}</a></p>`,
+  };
+}
+
+function toBase64(bytes: Uint8Array): string {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(bytes).toString('base64');
+  }
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function badge(label: string, tone: 'good' | 'bad' | 'warn' | 'neutral'): string {
+  return `<span class="badge ${tone}">${escapeHtml(label)}</span>`;
+}
+
+function formatScore(score: number): string {
+  return score.toFixed(2);
+}
+
+function formatValue(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function page(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+const STYLES = `
+body { font: 14px/1.5 system-ui, -apple-system, "Segoe UI", sans-serif; color: #1f2328; margin: 0; padding: 24px; background: #f6f8fa; }
+main, aside { background: #fff; border: 1px solid #d0d7de; border-radius: 8px; padding: 16px 24px; }
+h1 { font-size: 20px; margin: 0 0 8px; } h2 { font-size: 16px; margin: 24px 0 8px; }
+.split { display: grid; grid-template-columns: minmax(0, 3fr) minmax(0, 2fr); gap: 24px; align-items: start; }
+aside { position: sticky; top: 24px; } aside iframe, aside img { width: 100%; border: 1px solid #d0d7de; } aside iframe { height: 80vh; }
+table { width: 100%; border-collapse: collapse; } th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #eaeef2; vertical-align: top; }
+th { font-size: 12px; text-transform: uppercase; color: #656d76; } td.num { text-align: right; font-variant-numeric: tabular-nums; }
+tr.flagged { background: #fff1f0; } .muted { color: #8c959f; } .evidence q { color: #57606a; font-style: italic; }
+.badges { display: flex; flex-wrap: wrap; gap: 6px; } .badge, .score { display: inline-block; padding: 1px 8px; border-radius: 999px; font-size: 12px; font-weight: 600; }
+.good { background: #dafbe1; color: #1a7f37; } .bad { background: #ffebe9; color: #cf222e; } .warn { background: #fff8c5; color: #9a6700; } .neutral { background: #eaeef2; color: #424a53; }
+section.error { border-left: 4px solid #cf222e; padding-left: 12px; }
+`;
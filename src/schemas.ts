@@ -0,0 +1,201 @@
+import { z } from 'zod';
+
+/**
+ * Version of the built-in schema library.
+ * Bumped whenever a schema changes in a way that affects extraction output.
+ */
+export const SCHEMA_LIBRARY_VERSION = '1.0.0';
+
+const money = (description: string) => z.number().describe(description);
+
+const date = (description: string) =>
+  z.string().describe(`${description} in YYYY-MM-DD format`);
+
+const currency = z.string().describe('3-letter ISO 4217 currency code (USD, EUR, etc.)');
+
+const party = (role: string) =>
+  z.object({
+    name: z.string().describe(`Company or person name of the ${role}`),
+    address: z.string().optional().describe(`Full postal address of the ${role}`),
+    tax_id: z.string().optional().describe(`Tax ID or VAT number of the ${role}`),
+  });
+
+const lineItem = z.object({
+  description: z.string().describe('Item or service description'),
+  quantity: z.number().optional().describe('Number of units'),
+  unit_price: money('Price per unit').optional(),
+  amount: money('Total amount for this line'),
+});
+
+const payment = z.object({
+  date: date('Payment date').optional(),
+  method: z.string().optional().describe('Payment method, e.g. card, cash, bank transfer'),
+  amount: money('Amount paid'),
+});
+
+/**
+ * Invoice (v1). Field names line up with the built-in verification rules
+ * (`total = subtotal + tax`, `subtotal = sum(line_items[*].amount)`, `tax = subtotal × tax_rate`).
+ */
+const invoice = z.object({
+  // Required – present on practically every invoice
+  invoice_number: z.string().describe('The invoice number'),
+  date: date('Invoice issue date'),
+  total: money('Total amount due including tax'),
+  currency,
+  vendor: party('vendor (seller)').describe('The party issuing the invoice'),
+  line_items: z.array(lineItem).describe('List of items or services on the invoice'),
+
+  // Optional – frequently missing
+  customer: party('customer (buyer)').optional().describe('The party being invoiced'),
+  subtotal: money('Subtotal before tax').optional(),
+  tax: money('Total tax amount').optional(),
+  tax_rate: z.number().optional().describe('Tax rate as a percentage, e.g. 19 for 19%'),
+  due_date: date('Payment due date').optional(),
+  payment_terms: z.string().optional().describe('Payment terms, e.g. Net 30'),
+  purchase_order: z.string().optional().describe('Purchase order number referenced by the invoice'),
+  amount_paid: money('Amount already paid').optional(),
+  payments: z.array(payment).optional().describe('Payments already applied to the invoice'),
+});
+
+/**
+ * Receipt (v1). Many receipts only print a total, so items and tax are optional.
+ */
+const receipt = z.object({
+  // Required
+  merchant: z.string().describe('Name of the store or merchant'),
+  date: date('Purchase date'),
+  total: money('Total amount paid including tax'),
+  currency,
+
+  // Optional
+  receipt_number: z.string().optional().describe('Receipt or transaction number'),
+  merchant_address: z.string().optional().describe('Address of the store'),
+  time: z.string().optional().describe('Purchase time in HH:MM 24-hour format'),
+  line_items: z.array(lineItem).optional().describe('List of purchased items'),
+  subtotal: money('Subtotal before tax').optional(),
+  tax: money('Total tax amount').optional(),
+  tax_rate: z.number().optional().describe('Tax rate as a percentage, e.g. 8.875 for 8.875%'),
+  tip: money('Tip or gratuity amount').optional(),
+  payment_method: z.string().optional().describe('Payment method, e.g. Visa ending 1234, cash'),
+});
+
+/**
+ * Bank statement (v1).
+ */
+const bankStatement = z.object({
+  // Required
+  bank_name: z.string().describe('Name of the bank'),
+  account_number: z.string().describe('Account number or IBAN, as printed'),
+  period_start: date('First day of the statement period'),
+  period_end: date('Last day of the statement period'),
+  currency,
+  opening_balance: money('Balance at the start of the period'),
+  closing_balance: money('Balance at the end of the period'),
+  transactions: z
+    .array(
+      z.object({
+        date: date('Booking date'),
+        description: z.string().describe('Transaction description or counterparty'),
+        amount: money('Signed amount: positive for credits (money in), negative for debits (money out)'),
+        balance: money('Running balance after the transaction').optional(),
+        reference: z.string().optional().describe('Transaction reference'),
+      })
+    )
+    .describe('All transactions in the period, in statement order'),
+
+  // Optional
+  account_holder: z.string().optional().describe('Name of the account holder'),
+  total_credits: money('Sum of all credits (money in) in the period').optional(),
+  total_debits: money('Sum of all debits (money out) in the period, as a positive number').optional(),
+});
+
+/**
+ * Utility bill (v1): electricity, gas, water, internet or phone.
+ */
+const utilityBill = z.object({
+  // Required
+  provider: z.string().describe('Name of the utility provider'),
+  account_number: z.string().describe('Customer account number'),
+  bill_date: date('Bill issue date'),
+  total: money('Total amount due including tax'),
+  currency,
+
+  // Optional
+  invoice_number: z.string().optional().describe('Bill or invoice number'),
+  service_type: z.string().optional().describe('Service billed, e.g. electricity, gas, water, internet'),
+  service_address: z.string().optional().describe('Address where the service is provided'),
+  period_start: date('First day of the billing period').optional(),
+  period_end: date('Last day of the billing period').optional(),
+  due_date: date('Payment due date').optional(),
+  usage: z.number().optional().describe('Consumption in the billing period'),
+  usage_unit: z.string().optional().describe('Unit of consumption, e.g. kWh, m3, GB'),
+  previous_balance: money('Balance carried over from the previous bill').optional(),
+  line_items: z.array(lineItem).optional().describe('Itemised charges'),
+  subtotal: money('Subtotal before tax').optional(),
+  tax: money('Total tax amount').optional(),
+});
+
+/**
+ * Credit note (v1). Amounts are positive; the document type implies the credit.
+ */
+const creditNote = z.object({
+  // Required
+  credit_note_number: z.string().describe('The credit note number'),
+  date: date('Credit note issue date'),
+  total: money('Total amount credited including tax, as a positive number'),
+  currency,
+  vendor: party('vendor (seller)').describe('The party issuing the credit note'),
+
+  // Optional
+  original_invoice_number: z.string().optional().describe('Number of the invoice being credited'),
+  reason: z.string().optional().describe('Reason for the credit, e.g. returned goods'),
+  customer: party('customer (buyer)').optional().describe('The party receiving the credit'),
+  line_items: z.array(lineItem).optional().describe('Credited items or services'),
+  subtotal: money('Subtotal before tax, as a positive number').optional(),
+  tax: money('Total tax amount, as a positive number').optional(),
+  tax_rate: z.number().optional().describe('Tax rate as a percentage, e.g. 19 for 19%'),
+});
+
+/**
+ * Built-in schemas for common financial documents.
+ *
+ * Required fields are the ones present on practically every document of the type;
+ * everything else is optional to avoid needless fallback (see "Required vs Optional Fields").
+ * Field names match the built-in verification rules.
+ *
+ * @example
+ * ```ts
+ * import { schemas } from 'parsefy';
+ *
+ * const { object } = await client.extract({ file: './invoice.pdf', schema: schemas.invoice });
+ *
+ * // Add your own fields
+ * const schema = schemas.invoice.extend({
+ *   cost_center: z.string().optional().describe('Internal cost center code'),
+ * });
+ * ```
+ */
+export const schemas = {
+  invoice,
+  receipt,
+  bankStatement,
+  utilityBill,
+  creditNote,
+};
+
+/**
+ * Document types covered by the built-in schemas.
+ */
+export type DocumentType = keyof typeof schemas;
+
+/** Extracted invoice data. */
+export type Invoice = z.infer<typeof invoice>;
+/** Extracted receipt data. */
+export type Receipt = z.infer<typeof receipt>;
+/** Extracted bank statement data. */
+export type BankStatement = z.infer<typeof bankStatement>;
+/** Extracted utility bill data. */
+export type UtilityBill = z.infer<typeof utilityBill>;
+/** Extracted credit note data. */
+export type CreditNote = z.infer<typeof creditNote>;
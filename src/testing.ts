@@ -0,0 +1,597 @@
+import type {
+  ParsefyConfig,
+  ExtractResult,
+  ExtractionMetadata,
+  FieldConfidence,
+  RawAPIResponse,
+  RawJobResponse,
+  WebhookEventType,
+  FetchLike,
+  ParsefyMiddleware,
+} from './types';
+import { Parsefy } from './client';
+import { ParsefyError, ValidationError } from './errors';
+import { isNode, delay, sha256Hex, stableStringify } from './utils';
+import { computeWebhookSignature } from './webhooks';
+
+/**
+ * A simulated failure served by `MockParsefy` instead of a result.
+ */
+export type MockFailure =
+  | {
+      failure: 'http_error';
+      /** HTTP status code of the simulated response. */
+      statusCode: number;
+      /** Error message returned in the response body. */
+      message: string;
+      /** Value of the `Retry-After` header in milliseconds, if any. */
+      retryAfterMs?: number;
+    }
+  | { failure: 'timeout' }
+  | { failure: 'network_error' };
+
+/**
+ * A canned response served by `MockParsefy`: an extraction result or a simulated failure.
+ */
+export type MockFixture = ExtractResult<unknown> | MockFailure;
+
+/**
+ * Mode of operation for `MockParsefy`.
+ *
+ * - `'mock'`: serves `fixtures` only, no network.
+ * - `'record'`: calls the real API and saves every raw response to `fixturesDir`.
+ * - `'replay'`: serves raw responses previously saved to `fixturesDir`, falling back to `fixtures`.
+ */
+export type MockMode = 'mock' | 'record' | 'replay';
+
+/**
+ * Options for the MockParsefy test double.
+ */
+export interface MockParsefyOptions
+  extends Pick<ParsefyConfig, 'timeout' | 'retry' | 'middleware' | 'rateLimit'> {
+  /** Operating mode. Defaults to `'mock'`. */
+  mode?: MockMode;
+  /** Fixtures keyed by file name (e.g. "invoice.pdf") or SHA-256 hex hash of the file bytes. */
+  fixtures?: Record<string, MockFixture>;
+  /** Fixture served when no keyed fixture matches. Without it, unmatched files throw `FIXTURE_NOT_FOUND`. */
+  defaultFixture?: MockFixture;
+  /**
+   * Directory holding recorded raw responses (`<sha256>-<request hash>.json`). Recordings are keyed by
+   * the document and the request (schema, threshold, verification), so changing either records anew.
+   * Required for record and replay modes.
+   */
+  fixturesDir?: string;
+  /** API key used in record mode. Defaults to the PARSEFY_API_KEY environment variable. */
+  apiKey?: string;
+  /** Base URL used in record mode. */
+  baseUrl?: string;
+  /** Artificial latency added to every mocked response in milliseconds. Defaults to 0. */
+  latencyMs?: number;
+  /**
+   * Number of `client.jobs.get` polls a mocked job reports `processing` before it completes
+   * with the fixture for its document. Defaults to 1.
+   */
+  jobPolls?: number;
+}
+
+/**
+ * A single call received by `MockParsefy`.
+ */
+export interface MockCall {
+  /** Name of the uploaded file, if it had one. */
+  filename?: string;
+  /** SHA-256 hex hash of the uploaded bytes. */
+  hash: string;
+  /** The parsed JSON schema that was sent. */
+  schema: Record<string, unknown>;
+  /** How the call was answered. */
+  source: 'fixture' | 'recording' | 'network';
+}
+
+/**
+ * Offline test double for the Parsefy client.
+ *
+ * `MockParsefy` is a real `Parsefy` client whose transport is replaced, so `extract`,
+ * `extractBatch`, validation, retries and response parsing all behave exactly as in production.
+ *
+ * @example
+ * ```ts
+ * import { MockParsefy, mocks } from 'parsefy';
+ *
+ * const client = new MockParsefy({
+ *   fixtures: {
+ *     'invoice.pdf': mocks.success({ invoice_number: 'INV-1', total: 100 }),
+ *     'blurry.pdf': mocks.lowConfidence({ invoice_number: 'INV-2', total: 80 }, 0.4),
+ *     'busy.pdf': mocks.rateLimited(),
+ *   },
+ * });
+ *
+ * const { object } = await client.extract({ file: './invoice.pdf', schema });
+ * ```
+ *
+ * @example
+ * ```ts
+ * // Jobs report `processing` for `jobPolls` polls, then complete with the fixture
+ * const job = await client.jobs.create({ file: './invoice.pdf', schema });
+ * const done = await client.jobs.wait(job, { pollInterval: 1 });
+ * ```
+ *
+ * @example
+ * ```ts
+ * // Record real responses once, then replay them in CI
+ * const client = new MockParsefy({
+ *   mode: process.env.RECORD ? 'record' : 'replay',
+ *   fixturesDir: './test/fixtures',
+ * });
+ * ```
+ */
+export class MockParsefy extends Parsefy {
+  /** Every call received, in order. */
+  public readonly calls: MockCall[];
+
+  constructor(options: MockParsefyOptions = {}) {
+    const mode = options.mode || 'mock';
+    if (mode !== 'mock' && !options.fixturesDir) {
+      throw new ValidationError(`fixturesDir is required in ${mode} mode`);
+    }
+
+    const calls: MockCall[] = [];
+    const transport = createMockTransport(options, calls);
+
+    super({
+      apiKey: mode === 'record' ? options.apiKey : options.apiKey || 'pk_mock',
+      baseUrl: options.baseUrl,
+      timeout: options.timeout,
+      // Mocks should fail fast unless the test opts into retries
+      retry: options.retry || { maxRetries: 0 },
+      middleware: options.middleware,
+      rateLimit: options.rateLimit,
+      fetch: transport,
+    });
+
+    this.calls = calls;
+  }
+}
+
+/**
+ * Helpers for building mock fixtures.
+ */
+export const mocks = {
+  /**
+   * A successful extraction with high confidence on every top-level field.
+   */
+  success<T extends Record<string, unknown>>(
+    object: T,
+    metadata: Partial<ExtractionMetadata> = {}
+  ): ExtractResult<T> {
+    return {
+      object,
+      metadata: {
+        processing_time_ms: 1200,
+        credits: 1,
+        fallback_triggered: false,
+        confidence_score: 0.95,
+        field_confidence: buildFieldConfidence(object, 0.95),
+        issues: [],
+        ...metadata,
+      },
+      error: null,
+    };
+  },
+
+  /**
+   * A successful extraction where every field scored `score`.
+   */
+  lowConfidence<T extends Record<string, unknown>>(object: T, score = 0.5): ExtractResult<T> {
+    return mocks.success(object, {
+      confidence_score: score,
+      field_confidence: buildFieldConfidence(object, score),
+      issues: ['Low confidence extraction'],
+    });
+  },
+
+  /**
+   * A successful extraction that required the fallback model.
+   */
+  fallback<T extends Record<string, unknown>>(object: T): ExtractResult<T> {
+    return mocks.success(object, {
+      processing_time_ms: 4800,
+      credits: 2,
+      fallback_triggered: true,
+    });
+  },
+
+  /**
+   * An extraction that failed on the server (HTTP 200 with `error` set).
+   */
+  extractionFailed(code: string, message: string): ExtractResult<null> {
+    return {
+      object: null,
+      metadata: {
+        processing_time_ms: 800,
+        credits: 1,
+        fallback_triggered: true,
+        confidence_score: 0,
+        field_confidence: [],
+        issues: [message],
+      },
+      error: { code, message },
+    };
+  },
+
+  /**
+   * An HTTP 429 rate limit response.
+   */
+  rateLimited(retryAfterMs?: number): MockFailure {
+    return { failure: 'http_error', statusCode: 429, message: 'Rate limit exceeded', retryAfterMs };
+  },
+
+  /**
+   * An HTTP 5xx server error response.
+   */
+  serverError(statusCode = 500, message = 'Internal server error'): MockFailure {
+    return { failure: 'http_error', statusCode, message };
+  },
+
+  /**
+   * A request that times out.
+   */
+  timeout(): MockFailure {
+    return { failure: 'timeout' };
+  },
+
+  /**
+   * A request that fails to connect.
+   */
+  networkError(): MockFailure {
+    return { failure: 'network_error' };
+  },
+};
+
+/**
+ * Builds a signed job webhook delivery for `result`, as the API would send it, to test
+ * handlers that call `verifyWebhook`.
+ *
+ * @example
+ * ```ts
+ * const { payload, signature } = await mockWebhook(mocks.success({ total: 100 }), 'whsec_test');
+ * const event = await verifyWebhook(payload, signature, 'whsec_test');
+ * ```
+ */
+export async function mockWebhook(
+  result: ExtractResult<unknown>,
+  secret: string,
+  options: { type?: WebhookEventType; jobId?: string; timestamp?: number } = {}
+): Promise<{ payload: string; signature: string }> {
+  const { type = 'job.completed', jobId = 'job_1', timestamp = Math.floor(Date.now() / 1000) } = options;
+  const now = new Date(timestamp * 1000).toISOString();
+
+  const job: RawJobResponse = { id: jobId, status: 'completed', created_at: now, completed_at: now };
+  if (type === 'job.failed') {
+    job.status = 'failed';
+    job.error = result.error ?? { code: 'JOB_FAILED', message: 'Job failed' };
+  } else {
+    job.result = toRawResponse(result);
+  }
+
+  const payload = JSON.stringify({ id: `evt_${jobId}`, type, created_at: now, data: job });
+  return { payload, signature: await computeWebhookSignature(payload, secret, timestamp) };
+}
+
+/**
+ * Converts an extraction result back into the raw API payload served over the wire.
+ * @internal
+ */
+export function toRawResponse(result: ExtractResult<unknown>): RawAPIResponse {
+  const { metadata } = result;
+  const raw: RawAPIResponse = {
+    object: result.object as Record<string, unknown> | null,
+    metadata: {
+      processing_time_ms: metadata.processing_time_ms,
+      credits: metadata.credits,
+      fallback_triggered: metadata.fallback_triggered,
+    },
+    _meta: {
+      confidence_score: metadata.confidence_score,
+      field_confidence: metadata.field_confidence,
+      issues: metadata.issues,
+    },
+    error: result.error,
+  };
+
+  if (result.verification) {
+    raw.verification = result.verification;
+  }
+
+  return raw;
+}
+
+/**
+ * Creates a middleware that saves every successful raw API response to
+ * `dir/<sha256>-<request hash>.json`, the recordings `MockParsefy` replays.
+ * Use it on a regular client to record fixtures for `MockParsefy` replay mode.
+ *
+ * @example
+ * ```ts
+ * const client = new Parsefy({ middleware: [recordFixtures('./test/fixtures')] });
+ * ```
+ */
+export function recordFixtures(dir: string): ParsefyMiddleware {
+  return async (request, next) => {
+    const response = await next(request);
+    if (response.ok) {
+      const upload = getUpload(request.init.body);
+      if (upload) {
+        const hash = await sha256Hex(await upload.file.arrayBuffer());
+        await writeFixture(dir, await recordingName(hash, upload), await response.clone().text());
+      }
+    }
+    return response;
+  };
+}
+
+/**
+ * A job held by the `MockParsefy` job server.
+ * @internal
+ */
+interface MockJob {
+  createdAt: string;
+  /** Polls left before the job completes. */
+  pendingPolls: number;
+  result: RawAPIResponse;
+}
+
+/**
+ * Builds the fetch implementation backing `MockParsefy`.
+ * @internal
+ */
+function createMockTransport(options: MockParsefyOptions, calls: MockCall[]): FetchLike {
+  const mode = options.mode || 'mock';
+  const fixtures = options.fixtures || {};
+  const latencyMs = options.latencyMs || 0;
+  const jobs = new Map<string, MockJob>();
+
+  const extract = async (url: string, init: RequestInit): Promise<Response> => {
+    const upload = getUpload(init.body);
+    if (!upload) {
+      throw new ValidationError('MockParsefy expected a multipart upload with a file');
+    }
+
+    const hash = await sha256Hex(await upload.file.arrayBuffer());
+    const call: MockCall = { filename: upload.filename, hash, schema: upload.schema, source: 'fixture' };
+    calls.push(call);
+
+    if (mode === 'record') {
+      call.source = 'network';
+      const response = await fetch(url, init);
+      if (response.ok) {
+        const name = await recordingName(hash, upload);
+        await writeFixture(options.fixturesDir!, name, await response.clone().text());
+      }
+      return response;
+    }
+
+    if (latencyMs > 0) {
+      await delay(latencyMs);
+    }
+
+    if (mode === 'replay') {
+      const recorded = await readFixture(options.fixturesDir!, await recordingName(hash, upload));
+      if (recorded !== null) {
+        call.source = 'recording';
+        return new Response(recorded, {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    }
+
+    const fixture =
+      (upload.filename !== undefined ? fixtures[upload.filename] : undefined) ||
+      fixtures[hash] ||
+      options.defaultFixture;
+
+    if (!fixture) {
+      throw new ParsefyError(
+        `No fixture found for ${upload.filename ? `"${upload.filename}"` : 'document'} (sha256 ${hash})`,
+        'FIXTURE_NOT_FOUND'
+      );
+    }
+
+    return serveFixture(fixture);
+  };
+
+  return async (url, init) => {
+    const jobId = parseJobUrl(url);
+    if (jobId === undefined) {
+      return extract(url, init);
+    }
+    // Jobs are not recorded: their results depend on when they are polled
+    if (mode === 'record') {
+      return fetch(url, init);
+    }
+
+    if (jobId === null) {
+      // Submitting a job answers with the fixture the synchronous extraction would get
+      const response = await extract(url, init);
+      if (!response.ok) {
+        return response;
+      }
+      const id = `job_${jobs.size + 1}`;
+      const createdAt = new Date().toISOString();
+      jobs.set(id, {
+        createdAt,
+        pendingPolls: options.jobPolls ?? 1,
+        result: await response.json(),
+      });
+      return jsonResponse(202, { id, status: 'queued', created_at: createdAt });
+    }
+
+    if (latencyMs > 0) {
+      await delay(latencyMs);
+    }
+
+    const job = jobs.get(jobId);
+    if (!job) {
+      return jsonResponse(404, { code: 'JOB_NOT_FOUND', message: `Job ${jobId} not found` });
+    }
+    if (job.pendingPolls > 0) {
+      job.pendingPolls--;
+      return jsonResponse(200, { id: jobId, status: 'processing', created_at: job.createdAt });
+    }
+    const raw: RawJobResponse = {
+      id: jobId,
+      status: 'completed',
+      created_at: job.createdAt,
+      completed_at: new Date().toISOString(),
+      result: job.result,
+    };
+    return jsonResponse(200, raw);
+  };
+}
+
+/**
+ * Reads the job id out of a jobs URL: null for the jobs collection,
+ * undefined for any other endpoint.
+ * @internal
+ */
+function parseJobUrl(url: string): string | null | undefined {
+  const match = /\/v1\/jobs(?:\/([^/?]+))?(?:\?.*)?$/.exec(url);
+  if (!match) return undefined;
+  return match[1] !== undefined ? decodeURIComponent(match[1]) : null;
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Turns a fixture into a `Response`, or throws the error `fetch` would throw.
+ * @internal
+ */
+function serveFixture(fixture: MockFixture): Response {
+  if (!('failure' in fixture)) {
+    return new Response(JSON.stringify(toRawResponse(fixture)), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  switch (fixture.failure) {
+    case 'http_error': {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (fixture.retryAfterMs !== undefined) {
+        headers['Retry-After'] = String(fixture.retryAfterMs / 1000);
+      }
+      return new Response(
+        JSON.stringify({ code: `HTTP_${fixture.statusCode}`, message: fixture.message }),
+        { status: fixture.statusCode, headers }
+      );
+    }
+    case 'timeout': {
+      const error = new Error('The operation was aborted');
+      error.name = 'AbortError';
+      throw error;
+    }
+    case 'network_error':
+      throw new TypeError('fetch failed');
+  }
+}
+
+/**
+ * Reads the uploaded file and schema out of a request body.
+ * @internal
+ */
+function getUpload(body: RequestInit['body']): {
+  file: Blob;
+  filename?: string;
+  schema: Record<string, unknown>;
+  options: Record<string, string>;
+} | null {
+  if (!(body instanceof FormData)) return null;
+
+  const file = body.get('file');
+  if (!(file instanceof Blob)) return null;
+
+  const schema = body.get('output_schema');
+  const options: Record<string, string> = {};
+  body.forEach((value, key) => {
+    if (key !== 'file' && key !== 'output_schema' && typeof value === 'string') {
+      options[key] = value;
+    }
+  });
+  return {
+    file,
+    filename: typeof File !== 'undefined' && file instanceof File ? file.name : undefined,
+    schema: typeof schema === 'string' ? JSON.parse(schema) : {},
+    options,
+  };
+}
+
+/**
+ * Name of the recording for an upload: the document hash and a hash of the schema and request
+ * options, so the same document extracted with another schema or threshold is recorded separately.
+ * @internal
+ */
+async function recordingName(
+  fileHash: string,
+  upload: { schema: Record<string, unknown>; options: Record<string, string> }
+): Promise<string> {
+  const request = stableStringify({ schema: upload.schema, options: upload.options });
+  const requestHash = await sha256Hex(new TextEncoder().encode(request));
+  return `${fileHash}-${requestHash.slice(0, 16)}`;
+}
+
+/**
+ * Builds one confidence entry per top-level field of `object`.
+ * @internal
+ */
+function buildFieldConfidence(object: Record<string, unknown>, score: number): FieldConfidence[] {
+  return Object.entries(object).map(([key, value]) => ({
+    field: `$.${key}`,
+    score,
+    reason: score >= 0.85 ? 'Exact match' : 'Low quality scan',
+    page: 1,
+    text: value === null || typeof value === 'object' ? '' : String(value),
+  }));
+}
+
+/**
+ * Writes a recorded raw response to disk (Node.js only).
+ * @internal
+ */
+async function writeFixture(dir: string, name: string, payload: string): Promise<void> {
+  if (!isNode()) {
+    throw new ValidationError('Recording fixtures is only supported in Node.js');
+  }
+  const fs = await import('fs');
+  const path = await import('path');
+
+  await fs.promises.mkdir(dir, { recursive: true });
+  // Re-serialize so recordings are readable and diff well in version control
+  await fs.promises.writeFile(
+    path.join(dir, `${name}.json`),
+    `${JSON.stringify(JSON.parse(payload), null, 2)}\n`
+  );
+}
+
+/**
+ * Reads a recorded raw response from disk, or null if there is none (Node.js only).
+ * @internal
+ */
+async function readFixture(dir: string, name: string): Promise<string | null> {
+  if (!isNode()) {
+    throw new ValidationError('Replaying fixtures is only supported in Node.js');
+  }
+  const fs = await import('fs');
+  const path = await import('path');
+
+  try {
+    return await fs.promises.readFile(path.join(dir, `${name}.json`), 'utf8');
+  } catch {
+    return null;
+  }
+}
@@ -1,4 +1,7 @@
 import type { z } from 'zod';
+import type { ParsefyError } from './errors';
+import type { UsageTracker } from './usage';
+import type { RateLimiter } from './ratelimit';
 
 /**
  * Configuration options for the Parsefy client.
@@ -10,22 +13,498 @@ export interface ParsefyConfig {
   baseUrl?: string;
   /** Request timeout in milliseconds. Defaults to 60000 (60 seconds). */
   timeout?: number;
+  /** Extra headers sent with every request (e.g., tenant or trace ids). */
+  headers?: Record<string, string>;
+  /**
+   * Custom `fetch` implementation, e.g. one using a proxy agent or a test double.
+   * Defaults to the global `fetch`.
+   */
+  fetch?: FetchLike;
+  /**
+   * Ordered middleware chain wrapped around every HTTP request.
+   * The first middleware is the outermost: it sees the request first and the response last.
+   */
+  middleware?: ParsefyMiddleware[];
+  /** Retry policy for failed requests. Defaults to 3 retries on 429/502/503/504, network errors and timeouts. */
+  retry?: RetryConfig;
+  /**
+   * Result cache keyed by the document bytes, JSON Schema, `confidenceThreshold` and
+   * `enableVerification`, so the same extraction is not uploaded and billed twice.
+   * Pass a store (`memoryCache()`, `fileCache(dir)` or your own) or a config with a TTL.
+   * Disabled by default.
+   */
+  cache?: CacheStore | CacheConfig;
+  /**
+   * Credit budget enforced by the client's usage tracker. Once the hard limit is reached,
+   * further extractions fail with a `BudgetExceededError` before uploading.
+   * Cannot be combined with `usage`; pass the budget to the shared `UsageTracker` instead.
+   */
+  budget?: BudgetConfig;
+  /**
+   * Usage tracker to record into, e.g. one shared by several clients.
+   * Defaults to a new tracker per client, available as `client.usage`.
+   */
+  usage?: UsageTracker;
+  /**
+   * Lifecycle hooks called during every extraction, e.g. for logging, metrics or
+   * tracing (see `otelHooks`). Errors thrown by hooks are ignored.
+   */
+  hooks?: ParsefyHooks | ParsefyHooks[];
+  /**
+   * Queue requests client-side to stay under the API rate limit: `true` for the default
+   * limit of 1 request per second, options, or a `RateLimiter` shared by several clients.
+   * Disabled by default.
+   */
+  rateLimit?: boolean | RateLimiterOptions | RateLimiter;
+}
+
+/**
+ * Lifecycle hooks of an extraction. Every event carries the `extractId` of the
+ * `extract` call (or batch item) it belongs to.
+ *
+ * Order: `onExtractStart`, then per HTTP attempt `onRequestStart` and `onResponse`
+ * (with `onRetry` between attempts), then `onExtractComplete` or `onError`.
+ * Cache hits skip the request events.
+ */
+export interface ParsefyHooks {
+  /** Called when an extraction starts, before the schema is converted and the file prepared. */
+  onExtractStart?: (event: ExtractStartEvent) => void;
+  /** Called before each HTTP attempt. */
+  onRequestStart?: (event: RequestStartEvent) => void;
+  /** Called when an HTTP attempt receives a response, whatever its status. */
+  onResponse?: (event: ResponseEvent) => void;
+  /** Called before a failed attempt is retried, after the delay has been computed. */
+  onRetry?: (event: RetryEvent) => void;
+  /** Called when an extraction fails with an error. */
+  onError?: (event: ExtractErrorEvent) => void;
+  /** Called when an extraction returns a result (including results with `error` set). */
+  onExtractComplete?: (event: ExtractCompleteEvent) => void;
 }
 
+/**
+ * Steps of an extraction, as timed in `ExtractTimings`.
+ */
+export type ExtractPhase = 'schema' | 'prepare' | 'request' | 'validate';
+
+/**
+ * Time spent in each step of an extraction, in milliseconds.
+ * Steps that did not run are omitted (e.g. `schema` for batch items, converted once per batch).
+ */
+export type ExtractTimings = Partial<Record<ExtractPhase, number>>;
+
+/**
+ * Payload of `onExtractStart`.
+ */
+export interface ExtractStartEvent {
+  /** Id of the extraction. */
+  extractId: string;
+  /** The `tag` extract option. */
+  tag?: string;
+  /** Position of the document in a batch, if part of one. */
+  batchIndex?: number;
+  /** Start time (milliseconds since the epoch). */
+  startedAt: number;
+}
+
+/**
+ * Payload of `onRequestStart`.
+ */
+export interface RequestStartEvent {
+  /** Id of the extraction. */
+  extractId: string;
+  /** Attempt number, starting at 1. */
+  attempt: number;
+  /** Time the attempt waited in the rate limiter queue, in milliseconds (0 without one). */
+  queuedMs: number;
+  /** Request URL. */
+  url: string;
+  /** Idempotency key sent with every attempt of this request. */
+  idempotencyKey: string;
+}
+
+/**
+ * Payload of `onResponse`.
+ */
+export interface ResponseEvent {
+  /** Id of the extraction. */
+  extractId: string;
+  /** Attempt number, starting at 1. */
+  attempt: number;
+  /** HTTP status code. */
+  status: number;
+  /** Time from sending the request to receiving the response headers, in milliseconds. */
+  durationMs: number;
+}
+
+/**
+ * Payload of `onRetry`.
+ */
+export interface RetryEvent extends RetryInfo {
+  /** Id of the extraction. */
+  extractId: string;
+}
+
+/**
+ * Payload of `onError`.
+ */
+export interface ExtractErrorEvent {
+  /** Id of the extraction. */
+  extractId: string;
+  /** The error the extraction failed with. */
+  error: Error;
+  /** Step the error was thrown in. */
+  phase: ExtractPhase;
+  /** Time spent in each completed step. */
+  timings: ExtractTimings;
+  /** Total time in milliseconds. */
+  durationMs: number;
+}
+
+/**
+ * Payload of `onExtractComplete`.
+ */
+export interface ExtractCompleteEvent {
+  /** Id of the extraction. */
+  extractId: string;
+  /** The result returned to the caller. */
+  result: ExtractResult<unknown>;
+  /** Time spent in each step. */
+  timings: ExtractTimings;
+  /** Total time in milliseconds. */
+  durationMs: number;
+}
+
+/**
+ * Credit budget for a usage tracker.
+ */
+export interface BudgetConfig {
+  /** Credits after which further extractions are rejected with a `BudgetExceededError`. */
+  hardLimit?: number;
+  /** Credits after which `onSoftLimit` is called, once. Extractions continue. */
+  softLimit?: number;
+  /** Called the first time the credits used reach `softLimit`. */
+  onSoftLimit?: (usage: UsageSnapshot) => void;
+}
+
+/**
+ * Aggregated usage for a set of extractions.
+ */
+export interface UsageTotals {
+  /** Extractions that returned a result (including cache hits and extraction errors). */
+  requests: number;
+  /** Requests that failed with an error instead of a result. */
+  failedRequests: number;
+  /** Results with an extraction error (`result.error`). */
+  extractionErrors: number;
+  /** Credits billed. Cache hits bill nothing. */
+  credits: number;
+  /** Pages processed (1 credit = 1 page), including pages served from the cache. */
+  pages: number;
+  /** Results served from the cache. */
+  cacheHits: number;
+  /** Results for which the fallback model was triggered. Cache hits are not counted. */
+  fallbacks: number;
+  /** Share of processed (not cached) results that triggered the fallback model (0.0 to 1.0). */
+  fallbackRate: number;
+  /** Total server processing time in milliseconds. Cache hits are not counted. */
+  processingTimeMs: number;
+  /** Average server processing time per processed (not cached) result in milliseconds. */
+  averageProcessingTimeMs: number;
+}
+
+/**
+ * Point-in-time copy of a usage tracker.
+ */
+export interface UsageSnapshot extends UsageTotals {
+  /** Usage per schema, keyed by the JSON Schema `title` or a short schema fingerprint. */
+  bySchema: Record<string, UsageTotals>;
+  /** Usage per `tag` extract option. Untagged extractions are not listed. */
+  byTag: Record<string, UsageTotals>;
+  /** Budget state, if a budget is configured. */
+  budget?: {
+    hardLimit?: number;
+    softLimit?: number;
+    /** Credits left before the hard limit. */
+    remaining?: number;
+  };
+  /** When tracking started or was last reset (ISO 8601). */
+  since: string;
+}
+
+/**
+ * Cache configuration.
+ */
+export interface CacheConfig {
+  /** Where cached results are kept. */
+  store: CacheStore;
+  /** Time to live of cached results in milliseconds. Defaults to no expiry. */
+  ttl?: number;
+}
+
+/**
+ * Storage for cached extraction results. Implement it to use Redis, S3, a database, etc.
+ * Entries are opaque JSON-serializable values; expiry is handled by the client.
+ */
+export interface CacheStore {
+  /** Gets an entry, or undefined if there is none. */
+  get(key: string): Promise<CacheEntry | undefined> | CacheEntry | undefined;
+  /** Stores an entry, replacing any previous one. */
+  set(key: string, entry: CacheEntry): Promise<void> | void;
+  /** Removes an entry. Called for expired entries when implemented. */
+  delete?(key: string): Promise<void> | void;
+}
+
+/**
+ * A cached extraction result.
+ */
+export interface CacheEntry {
+  /** The result as returned by the API, before validation. */
+  result: ExtractResult<unknown>;
+  /** When the result was stored (milliseconds since the epoch). */
+  storedAt: number;
+}
+
+/**
+ * Per-call cache behavior.
+ *
+ * - `'use'`: serve cached results and cache new ones (default when a cache is configured).
+ * - `'refresh'`: always call the API and replace the cached result.
+ * - `'bypass'`: neither read nor write the cache.
+ */
+export type CacheMode = 'use' | 'refresh' | 'bypass';
+
+/**
+ * Cache details of a result, present when a cache is configured.
+ */
+export interface CacheInfo {
+  /** Whether the result was served from the cache. */
+  hit: boolean;
+  /** Cache key of the extraction. */
+  key: string;
+  /** When the cached result was stored (ISO 8601). Only set on hits. */
+  storedAt?: string;
+  /**
+   * Credits consumed by the original extraction. On hits `metadata.credits` is 0,
+   * since nothing was billed for this call.
+   */
+  originalCredits?: number;
+}
+
+/**
+ * Retry policy for failed requests.
+ * Retries use exponential backoff with jitter, unless the server sends a `Retry-After` header.
+ */
+export interface RetryConfig {
+  /** Maximum number of retries after the first attempt. Set to 0 to disable retries. Defaults to 3. */
+  maxRetries?: number;
+  /** HTTP status codes that are retried. Defaults to [429, 502, 503, 504]. */
+  retryableStatusCodes?: number[];
+  /** `ParsefyError` codes that are retried. Defaults to ["NETWORK_ERROR", "TIMEOUT"]. */
+  retryableErrorCodes?: string[];
+  /** Base delay for exponential backoff in milliseconds. Defaults to 1000. */
+  baseDelay?: number;
+  /** Maximum delay between attempts in milliseconds. Defaults to 30000. */
+  maxDelay?: number;
+  /** Wait for the server's `Retry-After` header (capped at `maxDelay`) instead of backoff. Defaults to true. */
+  respectRetryAfter?: boolean;
+  /**
+   * Custom predicate deciding whether an error is retried.
+   * Replaces the status code and error code checks; `maxRetries` still applies.
+   */
+  shouldRetry?: (error: ParsefyError, attempt: number) => boolean;
+  /** Called before each retry, after the delay has been computed. */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Details about an upcoming retry, passed to `RetryConfig.onRetry`.
+ */
+export interface RetryInfo {
+  /** Retry number, starting at 1 for the first retry. */
+  attempt: number;
+  /** Delay before the retry in milliseconds. */
+  delayMs: number;
+  /** The error that caused the retry. */
+  error: ParsefyError;
+  /** Idempotency key sent with every attempt of this request; absent for job polls. */
+  idempotencyKey?: string;
+}
+
+/**
+ * Default retry policy.
+ * @internal
+ */
+export const DEFAULT_RETRY_CONFIG = {
+  maxRetries: 3,
+  retryableStatusCodes: [429, 502, 503, 504],
+  retryableErrorCodes: ['NETWORK_ERROR', 'TIMEOUT'],
+  baseDelay: 1000,
+  maxDelay: 30000,
+  respectRetryAfter: true,
+};
+
+/**
+ * Options for a `RateLimiter`.
+ */
+export interface RateLimiterOptions {
+  /** Sustained request rate. Defaults to 1, the API's limit per key. */
+  requestsPerSecond?: number;
+  /** Requests that may be sent at once after an idle period. Defaults to 1. */
+  burst?: number;
+  /** Maximum number of requests in flight. Defaults to unlimited. */
+  maxConcurrent?: number;
+  /** Maximum number of queued requests; further requests fail with `QUEUE_FULL`. Defaults to unlimited. */
+  maxQueueSize?: number;
+}
+
+/**
+ * Default rate limiter settings.
+ */
+export const DEFAULT_RATE_LIMIT = {
+  requestsPerSecond: 1,
+  burst: 1,
+  maxConcurrent: Infinity,
+  maxQueueSize: Infinity,
+};
+
+/**
+ * Queue depth and wait times of a `RateLimiter`.
+ */
+export interface RateLimiterStats {
+  /** Requests waiting in the queue. */
+  queued: number;
+  /** Requests sent and not yet answered. */
+  active: number;
+  /** Requests let through so far. */
+  started: number;
+  /** Average time requests waited in the queue, in milliseconds. */
+  averageWaitMs: number;
+  /** Longest time a request waited in the queue, in milliseconds. */
+  maxWaitMs: number;
+  /** Number of times rate-limit response headers paused the queue. */
+  throttled: number;
+  /** Time (milliseconds since the epoch) until which the queue is paused, if it is. */
+  pausedUntil?: number;
+}
+
+/**
+ * Minimal `fetch` signature used by the client.
+ */
+export type FetchLike = (input: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Outgoing HTTP request as seen by middleware.
+ * Middleware may mutate `url` and `init` (including `init.headers`) before calling `next`.
+ */
+export interface ParsefyRequest {
+  /** Absolute URL of the request. */
+  url: string;
+  /** Request options passed to `fetch`. */
+  init: RequestInit & { headers: Headers };
+}
+
+/**
+ * Middleware wrapped around each HTTP request.
+ * Call `next` to continue the chain; the returned `Response` may be inspected or replaced
+ * before the client parses it.
+ *
+ * @example
+ * ```ts
+ * const logger: ParsefyMiddleware = async (request, next) => {
+ *   request.init.headers.set('X-Trace-Id', crypto.randomUUID());
+ *   const response = await next(request);
+ *   console.log(request.url, response.status);
+ *   return response;
+ * };
+ * ```
+ */
+export type ParsefyMiddleware = (
+  request: ParsefyRequest,
+  next: (request: ParsefyRequest) => Promise<Response>
+) => Promise<Response>;
+
 /**
  * Default confidence threshold for extraction.
  * Fields below this threshold on required fields will trigger the fallback model.
  */
 export const DEFAULT_CONFIDENCE_THRESHOLD = 0.85;
 
+/**
+ * A plain JSON Schema object.
+ */
+export type JsonSchema = { [key: string]: unknown };
+
+/**
+ * A validator implementing the Standard Schema spec (https://standardschema.dev),
+ * such as Zod, Valibot or ArkType. Declared here so no extra dependency is needed.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaV1Props<Input, Output>;
+}
+
+/**
+ * The `~standard` property of a Standard Schema validator.
+ */
+export interface StandardSchemaV1Props<Input = unknown, Output = Input> {
+  /** Version of the Standard Schema spec. */
+  readonly version: 1;
+  /** Name of the validation library (e.g. "zod", "valibot", "arktype"). */
+  readonly vendor: string;
+  /** Validates a value. */
+  readonly validate: (
+    value: unknown
+  ) => StandardSchemaV1Result<Output> | Promise<StandardSchemaV1Result<Output>>;
+  /** Inferred types, only used for type inference. */
+  readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  /** JSON Schema converter, for libraries implementing the Standard JSON Schema spec. */
+  readonly jsonSchema?: {
+    readonly input: (options: { readonly target: string }) => Record<string, unknown>;
+  };
+}
+
+/**
+ * Result of a Standard Schema validation.
+ */
+export type StandardSchemaV1Result<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | {
+      readonly issues: ReadonlyArray<{
+        readonly message: string;
+        readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+      }>;
+    };
+
+/**
+ * Schema accepted by `extract`: a Zod 3 or Zod 4 schema, any Standard Schema validator,
+ * or a plain JSON Schema object.
+ */
+export type SchemaInput = z.ZodType | StandardSchemaV1 | JsonSchema;
+
+/**
+ * Output type inferred from a schema. Plain JSON Schemas infer `Record<string, unknown>`.
+ */
+export type InferSchema<T extends SchemaInput> = T extends z.ZodType
+  ? z.infer<T>
+  : T extends StandardSchemaV1
+    ? NonNullable<T['~standard']['types']>['output']
+    : Record<string, unknown>;
+
 /**
  * Options for the extract method.
  */
-export interface ExtractOptions<T extends z.ZodType> {
+export interface ExtractOptions<T extends SchemaInput> {
   /** The document file to extract data from. Supports File, Blob, Buffer, or file path (Node.js only). */
   file: File | Blob | Buffer | string;
-  /** Zod schema defining the structure of data to extract. */
+  /**
+   * Schema defining the structure of data to extract: a Zod 3 or Zod 4 schema, a Standard Schema
+   * validator (Valibot, ArkType, ...) or a plain JSON Schema object.
+   */
   schema: T;
+  /**
+   * JSON Schema sent to the API instead of converting `schema`, which is then only used for
+   * typing and validation. Required for Standard Schema validators without a JSON Schema converter.
+   */
+  jsonSchema?: JsonSchema;
   /**
    * Confidence threshold for extraction (0.0 to 1.0). Defaults to 0.85.
    *
@@ -47,6 +526,400 @@ export interface ExtractOptions<T extends z.ZodType> {
    * supporting fields are automatically extracted in the background for verification.
    */
   enableVerification?: boolean;
+  /**
+   * Runtime validation of the extracted object against `schema`. Defaults to `'off'`.
+   *
+   * - `'off'`: the object is returned as received from the API (typed, but not checked).
+   * - `'strict'`: the object is parsed with `schema`, including `.transform()` and `.refine()`.
+   *   With Zod, `null` in `.optional()` fields is read as missing.
+   * - `'coerce'`: like `'strict'`, but primitives are coerced first (e.g. `"1,250.00"` → `1250`).
+   *
+   * When validation fails, a `SchemaValidationError` is thrown listing every issue.
+   * `'strict'` works with any Zod or Standard Schema validator; `'coerce'` requires Zod.
+   */
+  validate?: ValidationMode;
+  /**
+   * Throw an `ExtractionError` (carrying `metadata`) when the extraction fails, instead of
+   * returning a result with `error` set. The returned result is then always successful.
+   * Defaults to false.
+   */
+  throwOnError?: boolean;
+  /**
+   * Idempotency key sent as the `Idempotency-Key` header, so a retried upload is not billed twice.
+   * Defaults to a random key generated per call and reused across its retries.
+   */
+  idempotencyKey?: string;
+  /**
+   * Filename sent with the upload. Defaults to the file's own name, or "document" plus
+   * the extension matching the detected content for Buffers and Blobs.
+   */
+  filename?: string;
+  /**
+   * MIME type of the document. Defaults to the type detected from the file content
+   * (e.g. `%PDF` for PDF, ZIP container for DOCX and XLSX, PNG/JPEG/TIFF/HEIC signatures).
+   */
+  mimeType?: SupportedMimeType;
+  /**
+   * Preprocess image uploads (PNG, JPEG, TIFF, HEIC) before sending: EXIF rotation,
+   * downscaling and multi-page TIFF handling. Pass `true` for defaults. Defaults to false.
+   * Requires the optional `sharp` package (Node.js only).
+   */
+  preprocess?: boolean | ImagePreprocessOptions;
+  /**
+   * Upload only these pages of a PDF, e.g. `'1-3,7,10-'` or `[1, 2]` (1-based).
+   * The document is trimmed client-side, so only the selected pages are billed.
+   * `FieldConfidence.page` still refers to the pages of the original document.
+   * Requires the optional `pdf-lib` package.
+   */
+  pages?: PageSelection;
+  /**
+   * Analyze the schema with `analyzeSchema` before uploading. Defaults to false.
+   *
+   * Pass `true` to fail with a `SchemaAnalysisError` when the schema has `'error'` findings,
+   * or an object to choose the failing severity and receive every finding.
+   */
+  preflight?: boolean | PreflightOptions;
+  /** Cache behavior for this call when the client has a cache. Defaults to `'use'`. */
+  cache?: CacheMode;
+  /** Label for usage tracking, e.g. a customer or pipeline name. See `client.usage`. */
+  tag?: string;
+  /**
+   * Queue priority when the client has a rate limiter: higher values are sent first.
+   * Defaults to 0.
+   */
+  priority?: number;
+}
+
+/**
+ * Options for the pre-flight schema check of `extract`.
+ */
+export interface PreflightOptions {
+  /**
+   * Lowest severity that fails the call with a `SchemaAnalysisError`. Defaults to `'error'`.
+   * Use `'never'` to only report findings.
+   */
+  failOn?: SchemaWarningSeverity | 'never';
+  /** Called with every finding, before the call fails or proceeds. */
+  onWarnings?: (warnings: SchemaWarning[]) => void;
+}
+
+/**
+ * Severity of a schema finding.
+ *
+ * - `'error'`: the API cannot use the construct; extraction output will not match the schema.
+ * - `'warning'`: likely to lose information or trigger the fallback model.
+ * - `'info'`: suggestions, such as field names the verification rules do not recognise.
+ */
+export type SchemaWarningSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Kinds of schema findings reported by `analyzeSchema`.
+ */
+export type SchemaWarningCode =
+  | 'LOSSY_CONSTRUCT'
+  | 'UNSUPPORTED_TYPE'
+  | 'MISSING_DESCRIPTION'
+  | 'NESTED_REQUIRED_ARRAY'
+  | 'UNSUPPORTED_UNION'
+  | 'MANY_REQUIRED_FIELDS'
+  | 'VERIFICATION_FIELD_NAME';
+
+/**
+ * A single schema finding.
+ */
+export interface SchemaWarning {
+  /** Kind of finding. */
+  code: SchemaWarningCode;
+  /** How serious the finding is. */
+  severity: SchemaWarningSeverity;
+  /** JSON path of the field, with `[*]` for array items (e.g., "$.line_items[*].amount"). */
+  field: string;
+  /** Human-readable description, including how to fix it. */
+  message: string;
+}
+
+/**
+ * Result of `analyzeSchema`.
+ */
+export interface SchemaAnalysis {
+  /** Findings, most severe first. */
+  warnings: SchemaWarning[];
+  /** JSON paths of the required leaf fields. A missing value in any of them triggers fallback. */
+  requiredFields: string[];
+  /** JSON paths of the optional leaf fields. */
+  optionalFields: string[];
+  /** Estimated risk of triggering the (more expensive) fallback model, from the required fields. */
+  fallbackRisk: 'low' | 'medium' | 'high';
+}
+
+/**
+ * Runtime validation mode for extracted objects (the `validate` option).
+ *
+ * - `'off'`: the object is returned as received from the API, typed but not checked.
+ * - `'strict'`: the object is parsed with the schema, including `.transform()` and `.refine()`.
+ *   With a Zod schema, `null` in an `.optional()` field is read as missing first, since the
+ *   API reports missing fields as `null`; no other value is changed.
+ * - `'coerce'`: like `'strict'`, but primitives are coerced first (e.g. `"1,250.00"` → `1250`).
+ *   Requires a Zod schema.
+ */
+export type ValidationMode = 'strict' | 'coerce' | 'off';
+
+/**
+ * A single schema validation issue on an extracted object.
+ */
+export interface SchemaValidationIssue {
+  /** JSON path to the field, matching `FieldConfidence.field` (e.g., "$.line_items[0].amount"). */
+  field: string;
+  /** Path segments as reported by Zod. */
+  path: Array<string | number>;
+  /** Issue code reported by the validator (e.g., "invalid_type"), or "custom" if it reports none. */
+  code: string;
+  /** Human-readable description of the issue. */
+  message: string;
+  /** Confidence details for the field, if the API returned any. */
+  confidence?: FieldConfidence;
+}
+
+/**
+ * Options shared by the `normalizers` helpers.
+ */
+export interface NormalizerOptions {
+  /** What the field is, e.g. `'Total amount due'`. The helper appends its format guidance. */
+  description?: string;
+}
+
+/**
+ * Options for normalizers that read locale-formatted values.
+ */
+export interface LocaleNormalizerOptions extends NormalizerOptions {
+  /**
+   * BCP 47 locale the documents are written in, e.g. `'de-DE'` or `'en-US'`.
+   * Decides the decimal separator and whether dates are written day or month first.
+   */
+  locale?: string;
+}
+
+/**
+ * Options for `normalizers.money`.
+ */
+export interface MoneyNormalizerOptions extends LocaleNormalizerOptions {
+  /** 3-letter ISO 4217 currency used when the document does not print one. */
+  currency?: string;
+}
+
+/**
+ * Options for `normalizers.vatId`.
+ */
+export interface VatIdNormalizerOptions extends NormalizerOptions {
+  /** 2-letter country prefix added when the document prints the number without one. */
+  country?: string;
+}
+
+/**
+ * Pages of a PDF, numbered from 1.
+ *
+ * Either a list of page numbers, or a string of comma-separated pages and ranges where
+ * open ranges run to the first or last page: `'1-3,7,10-'`, `'-2'`.
+ * Pages are kept in the order given.
+ */
+export type PageSelection = string | number[];
+
+/**
+ * How `extractSplit` divides a PDF bundle into documents.
+ *
+ * - `{ ranges }`: one document per page selection, e.g. `['1-2', '3-5']`.
+ * - `{ every }`: consecutive documents of a fixed number of pages.
+ * - `{ separator: 'blank' }`: documents are separated by blank pages, which are dropped.
+ *   Only pages without any text, image or drawing count as blank, so scanned blank
+ *   sheets do not separate documents.
+ */
+export type SplitStrategy =
+  | { ranges: PageSelection[] }
+  | { every: number }
+  | { separator: 'blank' };
+
+/**
+ * Default number of documents processed in parallel by `extractBatch`.
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+/**
+ * Options for the extractBatch method.
+ */
+export interface ExtractBatchOptions<T extends SchemaInput>
+  extends Omit<ExtractOptions<T>, 'file' | 'idempotencyKey' | 'filename'> {
+  /** The documents to extract data from. Each entry accepts the same inputs as `extract`. */
+  files: Array<File | Blob | Buffer | string>;
+  /** Maximum number of documents processed at the same time. Defaults to 3. */
+  concurrency?: number;
+  /** Called once per document as soon as it settles, in completion order. Errors it throws are ignored. */
+  onProgress?: (progress: BatchProgress<InferSchema<T>>) => void;
+}
+
+/**
+ * Settled outcome for a single document in a batch.
+ * Mirrors `PromiseSettledResult` so failures never abort the rest of the batch.
+ */
+export type BatchItemResult<T> =
+  | {
+      status: 'fulfilled';
+      /** Position of the document in the `files` array. */
+      index: number;
+      /** The input exactly as passed in `files`. */
+      file: File | Blob | Buffer | string;
+      /** The extraction result. */
+      result: ExtractResult<T>;
+    }
+  | {
+      status: 'rejected';
+      /** Position of the document in the `files` array. */
+      index: number;
+      /** The input exactly as passed in `files`. */
+      file: File | Blob | Buffer | string;
+      /** The error thrown while preparing or extracting the document. */
+      error: ParsefyError;
+    };
+
+/**
+ * Progress event emitted by `extractBatch` after each document settles.
+ */
+export interface BatchProgress<T, I = BatchItemResult<T>> {
+  /** Number of documents settled so far (including this one). */
+  completed: number;
+  /** Total number of documents in the batch. */
+  total: number;
+  /** Number of documents that succeeded so far. */
+  succeeded: number;
+  /** Number of documents that failed so far. */
+  failed: number;
+  /** The document that just settled. */
+  item: I;
+}
+
+/**
+ * Options for the extractSplit method.
+ */
+export interface ExtractSplitOptions<T extends SchemaInput>
+  extends Omit<ExtractBatchOptions<T>, 'files' | 'mimeType' | 'preprocess' | 'pages' | 'onProgress'> {
+  /** The PDF bundle to split. Accepts the same inputs as `extract`. */
+  file: File | Blob | Buffer | string;
+  /** How to divide the bundle into documents. */
+  split: SplitStrategy;
+  /** Called once per document as soon as it settles, in completion order. Errors it throws are ignored. */
+  onProgress?: (progress: BatchProgress<InferSchema<T>, SplitItemResult<InferSchema<T>>>) => void;
+}
+
+/**
+ * Settled outcome for one document of a split bundle.
+ * `index` is the position of the document in the bundle and `file` the bundle itself.
+ */
+export type SplitItemResult<T> = BatchItemResult<T> & {
+  /** Pages of the bundle the document was made of (1-based). */
+  pages: number[];
+};
+
+/**
+ * Options for `client.jobs.create`. Accepts the same document and schema options as `extract`.
+ * `tag` labels the job's usage, and with `pages`, results read through `get` or `wait` refer
+ * to the pages of the original document. Validate results with `JobResultOptions`.
+ */
+export interface CreateJobOptions<T extends SchemaInput>
+  extends Omit<ExtractOptions<T>, 'validate' | 'throwOnError' | 'cache'> {
+  /**
+   * URL called with a signed `job.completed` or `job.failed` event when the job finishes.
+   * Authenticate the callback with `verifyWebhook`.
+   */
+  webhookUrl?: string;
+}
+
+/**
+ * Status of an asynchronous extraction job.
+ *
+ * - `'queued'`: accepted, waiting to be processed.
+ * - `'processing'`: being extracted.
+ * - `'completed'`: finished, `result` is set (its `error` may still be set if extraction failed).
+ * - `'failed'`: the job could not be processed, `error` is set.
+ */
+export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+/**
+ * An asynchronous extraction job.
+ */
+export interface Job<T> {
+  /** Job id. */
+  id: string;
+  /** Current status. */
+  status: JobStatus;
+  /** When the job was created (ISO 8601). */
+  createdAt: string;
+  /** When the job finished (ISO 8601), once completed or failed. */
+  completedAt?: string;
+  /** The extraction result, once completed. */
+  result?: ExtractResult<T>;
+  /** Why the job failed, if it did. */
+  error?: APIErrorResponse;
+}
+
+/**
+ * Options for checking a job's result in `client.jobs.get` and `client.jobs.wait`.
+ */
+export interface JobResultOptions {
+  /** Schema the job was created with. Fields built with `normalizers` are normalized. */
+  schema?: SchemaInput;
+  /** Checks the result object against `schema`, as the `extract` option of the same name. */
+  validate?: ValidationMode;
+}
+
+/**
+ * Options for `client.jobs.wait`.
+ */
+export interface WaitForJobOptions<T = unknown> extends JobResultOptions {
+  /** Delay before the first poll in milliseconds. Defaults to 1000. */
+  pollInterval?: number;
+  /** Maximum delay between polls in milliseconds; the delay grows by half after each poll. Defaults to 10000. */
+  maxPollInterval?: number;
+  /** Maximum time to wait in milliseconds before throwing a `JOB_WAIT_TIMEOUT` error. Defaults to 10 minutes. */
+  timeout?: number;
+  /** Stops waiting when aborted, cancelling a poll in flight. The job itself keeps running. */
+  signal?: AbortSignal;
+  /** Called with the job after every poll. */
+  onPoll?: (job: Job<T>) => void;
+}
+
+/**
+ * Default job polling policy.
+ */
+export const DEFAULT_JOB_WAIT_CONFIG = {
+  pollInterval: 1000,
+  maxPollInterval: 10000,
+  timeout: 600000,
+} as const;
+
+/**
+ * Types of webhook events.
+ */
+export type WebhookEventType = 'job.completed' | 'job.failed';
+
+/**
+ * A verified webhook event, as returned by `verifyWebhook`.
+ */
+export interface WebhookEvent<T> {
+  /** Event id, e.g. to ignore deliveries that were already handled. */
+  id: string;
+  /** Event type. */
+  type: WebhookEventType;
+  /** When the event was created (ISO 8601). */
+  createdAt: string;
+  /** The finished job. */
+  job: Job<T>;
+}
+
+/**
+ * Options for `verifyWebhook`.
+ */
+export interface VerifyWebhookOptions {
+  /** Maximum age of the signature in seconds, to reject replayed deliveries. Defaults to 300. */
+  tolerance?: number;
 }
 
 /**
@@ -141,19 +1014,53 @@ export interface APIErrorResponse {
 }
 
 /**
- * Result of an extraction operation.
+ * Fields shared by successful and failed extraction results.
  */
-export interface ExtractResult<T> {
-  /** Extracted data matching the schema, or null if extraction failed. */
-  object: T | null;
+interface ExtractResultBase {
   /** Metadata about the extraction process. */
   metadata: ExtractionMetadata;
   /** Math verification results (only present if enableVerification was true). */
   verification?: Verification;
-  /** Error details if extraction failed, or null on success. */
-  error: APIErrorResponse | null;
+  /** Cache details (only present if the client has a cache and it was not bypassed). */
+  cache?: CacheInfo;
+}
+
+/**
+ * A successful extraction: `error` is null and `object` holds the data.
+ */
+export interface ExtractSuccess<T> extends ExtractResultBase {
+  /** Extracted data matching the schema. */
+  object: T;
+  /** Always null on success. */
+  error: null;
 }
 
+/**
+ * A failed extraction: `error` says why and `object` is null.
+ */
+export interface ExtractFailure extends ExtractResultBase {
+  /** Always null on failure. */
+  object: null;
+  /** Error details. */
+  error: APIErrorResponse;
+}
+
+/**
+ * Result of an extraction operation. Checking `error` narrows the type:
+ * when `error` is null, `object` is non-null.
+ *
+ * @example
+ * ```ts
+ * const result = await client.extract({ file, schema });
+ * if (result.error) {
+ *   console.error(result.error.message); // result.object is null
+ * } else {
+ *   console.log(result.object.total); // no null check needed
+ * }
+ * ```
+ */
+export type ExtractResult<T> = ExtractSuccess<T> | ExtractFailure;
+
 /**
  * Raw field confidence as received from the API.
  * @internal
@@ -201,27 +1108,120 @@ export interface RawAPIResponse {
 }
 
 /**
- * Supported MIME types for document uploads.
+ * Raw job as received from the API.
+ * @internal
+ */
+export interface RawJobResponse {
+  id: string;
+  status: JobStatus;
+  created_at: string;
+  completed_at?: string;
+  result?: RawAPIResponse;
+  error?: APIErrorResponse;
+}
+
+/**
+ * Raw webhook event as delivered by the API.
+ * @internal
+ */
+export interface RawWebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  created_at: string;
+  data: RawJobResponse;
+}
+
+/**
+ * An API call made through the client's transport, retries and middleware.
  * @internal
  */
+export interface ApiRequest {
+  method: 'GET' | 'POST';
+  /** Path below the base URL, e.g. `/v1/extract`. */
+  path: string;
+  body?: FormData;
+  /** Sent as `Idempotency-Key` on every attempt. Omitted for reads, which are safe to repeat. */
+  idempotencyKey?: string;
+  /** Rate limiter queue priority. */
+  priority?: number;
+  /** Cancels the request, which then fails with code `ABORTED` and is not retried. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Supported MIME types for document uploads.
+ */
 export type SupportedMimeType =
   | 'application/pdf'
-  | 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+  | 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  | 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  | 'text/csv'
+  | 'image/png'
+  | 'image/jpeg'
+  | 'image/tiff'
+  | 'image/heic';
 
 /**
  * File extension to MIME type mapping.
+ * The first extension listed for a MIME type is its canonical extension.
  * @internal
  */
 export const MIME_TYPES: Record<string, SupportedMimeType> = {
   '.pdf': 'application/pdf',
   '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.csv': 'text/csv',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.tiff': 'image/tiff',
+  '.tif': 'image/tiff',
+  '.heic': 'image/heic',
+};
+
+/**
+ * Maximum file size in bytes for each supported MIME type.
+ * @internal
+ */
+export const MAX_FILE_SIZES: Record<SupportedMimeType, number> = {
+  'application/pdf': 10 * 1024 * 1024,
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 10 * 1024 * 1024,
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 5 * 1024 * 1024,
+  'text/csv': 5 * 1024 * 1024,
+  'image/png': 10 * 1024 * 1024,
+  'image/jpeg': 10 * 1024 * 1024,
+  'image/tiff': 20 * 1024 * 1024,
+  'image/heic': 10 * 1024 * 1024,
 };
 
 /**
- * Maximum file size in bytes (10MB).
+ * Client-side preprocessing applied to image uploads before size validation.
+ * Requires the optional `sharp` package (Node.js only).
+ */
+export interface ImagePreprocessOptions {
+  /** Rotate the image according to its EXIF orientation. Defaults to true. */
+  autoRotate?: boolean;
+  /** Downscale images so neither side exceeds this many pixels. Defaults to 4000. */
+  maxDimension?: number;
+  /**
+   * Pages kept from multi-page TIFFs. `'all'` keeps every page (each one downscaled),
+   * `'first'` uploads only the first page. Defaults to `'all'`.
+   */
+  tiffPages?: 'all' | 'first';
+  /** JPEG quality (1-100) used when re-encoding. Defaults to 85. */
+  quality?: number;
+}
+
+/**
+ * Default image preprocessing options.
  * @internal
  */
-export const MAX_FILE_SIZE = 10 * 1024 * 1024;
+export const DEFAULT_PREPROCESS_OPTIONS: Required<ImagePreprocessOptions> = {
+  autoRotate: true,
+  maxDimension: 4000,
+  tiffPages: 'all',
+  quality: 85,
+};
 
 /**
  * Default API base URL.
@@ -0,0 +1,872 @@
+import { ValidationError } from './errors';
+import { VAT_ID_FORMATS } from './normalize';
+import { parseNumberLike } from './validation';
+
+/**
+ * Where a business term is read from on the invoice: a dot-separated path (e.g. `'vendor.name'`),
+ * a function of the whole invoice, or `null` to leave the term out.
+ */
+export type UblFieldSource = string | ((invoice: Record<string, unknown>) => unknown) | null;
+
+/**
+ * Where a line-level business term is read from: a dot-separated path relative to the line
+ * item (e.g. `'quantity'`), a function of the line, or `null` to leave the term out.
+ */
+export type UblLineFieldSource =
+  | string
+  | ((line: Record<string, unknown>, index: number, invoice: Record<string, unknown>) => unknown)
+  | null;
+
+/**
+ * Mapping from EN 16931 business terms (BT-*) to the fields of an extracted invoice.
+ *
+ * The defaults follow `schemas.invoice`. Terms the built-in schema does not extract, such as
+ * the city or country of the parties, are read from fields a schema extending it would add
+ * (`vendor.country`, `customer.city`, …) or derived where the standard allows it.
+ */
+export interface UblMapping {
+  /** BT-1 Invoice number. Default: `invoice_number`. */
+  invoiceNumber: UblFieldSource;
+  /** BT-2 Issue date, as `YYYY-MM-DD`. Default: `date`. */
+  issueDate: UblFieldSource;
+  /** BT-3 Invoice type code (UNTDID 1001). Default: `type_code`, else `'380'` (commercial invoice). */
+  typeCode: UblFieldSource;
+  /** BT-5 Invoice currency code (ISO 4217). Default: `currency`. */
+  currency: UblFieldSource;
+  /** BT-9 Payment due date, as `YYYY-MM-DD`. Default: `due_date`. */
+  dueDate: UblFieldSource;
+  /** BT-10 Buyer reference. Default: `buyer_reference`. */
+  buyerReference: UblFieldSource;
+  /** BT-13 Purchase order reference. Default: `purchase_order`. */
+  purchaseOrder: UblFieldSource;
+  /** BT-20 Payment terms. Default: `payment_terms`. */
+  paymentTerms: UblFieldSource;
+  /** BT-22 Invoice note. Default: `note`. */
+  note: UblFieldSource;
+
+  /** BT-27 Seller name. Default: `vendor.name`. */
+  sellerName: UblFieldSource;
+  /** BT-31 Seller VAT identifier. Default: `vendor.tax_id`. */
+  sellerVatId: UblFieldSource;
+  /** BT-35 Seller address line. Default: `vendor.address`. */
+  sellerStreet: UblFieldSource;
+  /** BT-37 Seller city. Default: `vendor.city`. */
+  sellerCity: UblFieldSource;
+  /** BT-38 Seller post code. Default: `vendor.postal_code`. */
+  sellerPostalCode: UblFieldSource;
+  /** BT-40 Seller country code (ISO 3166-1 alpha-2). Default: `vendor.country`, else the prefix of the seller VAT id. */
+  sellerCountry: UblFieldSource;
+
+  /** BT-44 Buyer name. Default: `customer.name`. */
+  buyerName: UblFieldSource;
+  /** BT-48 Buyer VAT identifier. Default: `customer.tax_id`. */
+  buyerVatId: UblFieldSource;
+  /** BT-50 Buyer address line. Default: `customer.address`. */
+  buyerStreet: UblFieldSource;
+  /** BT-52 Buyer city. Default: `customer.city`. */
+  buyerCity: UblFieldSource;
+  /** BT-53 Buyer post code. Default: `customer.postal_code`. */
+  buyerPostalCode: UblFieldSource;
+  /** BT-55 Buyer country code (ISO 3166-1 alpha-2). Default: `customer.country`, else the prefix of the buyer VAT id. */
+  buyerCountry: UblFieldSource;
+
+  /** BT-109 Invoice total without VAT. Default: `subtotal`, else the sum of the line net amounts (BT-106). */
+  taxExclusiveAmount: UblFieldSource;
+  /** BT-110 Invoice total VAT amount. Default: `tax`, else computed from the VAT breakdown. */
+  taxAmount: UblFieldSource;
+  /** BT-112 Invoice total with VAT. Default: `total`. */
+  taxInclusiveAmount: UblFieldSource;
+  /** BT-113 Paid amount. Default: `amount_paid`. */
+  prepaidAmount: UblFieldSource;
+  /** BT-115 Amount due for payment. Default: `amount_due`, else the total with VAT minus the paid amount. */
+  payableAmount: UblFieldSource;
+  /**
+   * BT-118 VAT category code (UNTDID 5305), e.g. `'S'` standard rate, `'Z'` zero rated, `'E'` exempt,
+   * `'AE'` reverse charge. Default: `tax_category`, else `'S'` when `tax_rate` is above zero.
+   */
+  taxCategory: UblFieldSource;
+  /** BT-119 VAT rate in percent. Default: `tax_rate`. */
+  taxRate: UblFieldSource;
+  /**
+   * BT-120 VAT exemption reason text, required for the categories `'E'`, `'AE'`, `'K'`, `'G'`
+   * and `'O'` (e.g. "Reverse charge"). Default: `tax_exemption_reason`.
+   */
+  exemptionReason: UblFieldSource;
+
+  /** Dot-separated path of the line items array. Default: `line_items`. */
+  lines: string;
+  /** BT-126 Invoice line identifier. Default: `id`, else the 1-based line position. */
+  lineId: UblLineFieldSource;
+  /** BT-153 Item name. Default: `description`. */
+  lineName: UblLineFieldSource;
+  /** BT-129 Invoiced quantity. Default: `quantity`. */
+  lineQuantity: UblLineFieldSource;
+  /** BT-130 Unit of measure code (UN/ECE Rec 20). Default: `unit_code`, else `'C62'` (one). */
+  lineUnitCode: UblLineFieldSource;
+  /** BT-131 Invoice line net amount. Default: `amount`. */
+  lineAmount: UblLineFieldSource;
+  /** BT-146 Item net price. Default: `unit_price`. */
+  linePrice: UblLineFieldSource;
+  /** BT-151 Line VAT category code. Default: `tax_category`, else the invoice's VAT category. */
+  lineTaxCategory: UblLineFieldSource;
+  /** BT-152 Line VAT rate in percent. Default: `tax_rate`, else the invoice's VAT rate. */
+  lineTaxRate: UblLineFieldSource;
+}
+
+/**
+ * Default mapping from EN 16931 business terms to the fields of `schemas.invoice`.
+ * Where a term is missing, the fallback described on `UblMapping` is used.
+ */
+export const DEFAULT_UBL_MAPPING: Readonly<UblMapping> = {
+  invoiceNumber: 'invoice_number',
+  issueDate: 'date',
+  typeCode: 'type_code',
+  currency: 'currency',
+  dueDate: 'due_date',
+  buyerReference: 'buyer_reference',
+  purchaseOrder: 'purchase_order',
+  paymentTerms: 'payment_terms',
+  note: 'note',
+
+  sellerName: 'vendor.name',
+  sellerVatId: 'vendor.tax_id',
+  sellerStreet: 'vendor.address',
+  sellerCity: 'vendor.city',
+  sellerPostalCode: 'vendor.postal_code',
+  sellerCountry: 'vendor.country',
+
+  buyerName: 'customer.name',
+  buyerVatId: 'customer.tax_id',
+  buyerStreet: 'customer.address',
+  buyerCity: 'customer.city',
+  buyerPostalCode: 'customer.postal_code',
+  buyerCountry: 'customer.country',
+
+  taxExclusiveAmount: 'subtotal',
+  taxAmount: 'tax',
+  taxInclusiveAmount: 'total',
+  prepaidAmount: 'amount_paid',
+  payableAmount: 'amount_due',
+  taxCategory: 'tax_category',
+  taxRate: 'tax_rate',
+  exemptionReason: 'tax_exemption_reason',
+
+  lines: 'line_items',
+  lineId: 'id',
+  lineName: 'description',
+  lineQuantity: 'quantity',
+  lineUnitCode: 'unit_code',
+  lineAmount: 'amount',
+  linePrice: 'unit_price',
+  lineTaxCategory: 'tax_category',
+  lineTaxRate: 'tax_rate',
+};
+
+/**
+ * Options for `toUbl` and `validateUbl`.
+ */
+export interface UblOptions {
+  /** Overrides for the default field mapping. */
+  mapping?: Partial<UblMapping>;
+  /**
+   * BT-24 Specification identifier. Defaults to `'urn:cen.eu:en16931:2017'`. Set it to the
+   * identifier of a CIUS such as Peppol BIS Billing 3.0 or XRechnung when sending to those networks.
+   */
+  customizationId?: string;
+  /** BT-23 Business process type, e.g. `'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0'` for Peppol. */
+  profileId?: string;
+  /** Throw a `ValidationError` listing the issues instead of writing an incomplete invoice. Defaults to false. */
+  strict?: boolean;
+}
+
+/**
+ * A missing or unreadable business term.
+ */
+export interface UblIssue {
+  /** Business term or group, e.g. `'BT-40'`. */
+  term: string;
+  /** Name of the business term, e.g. `'Seller country code'`. */
+  name: string;
+  /** Field the term is mapped to, e.g. `'vendor.country'`, when the mapping is a path. */
+  field?: string;
+  /** 1-based line number for line-level terms. */
+  line?: number;
+  /** Human-readable description of the issue. */
+  message: string;
+}
+
+/**
+ * Result of `validateUbl`.
+ */
+export interface UblValidation {
+  /** Whether every mandatory business term is present and readable. */
+  valid: boolean;
+  /** Missing and unreadable business terms. */
+  issues: UblIssue[];
+}
+
+/**
+ * Names of the business terms, by mapping key.
+ */
+const TERMS: Record<Exclude<keyof UblMapping, 'lines'>, [term: string, name: string]> = {
+  invoiceNumber: ['BT-1', 'Invoice number'],
+  issueDate: ['BT-2', 'Invoice issue date'],
+  typeCode: ['BT-3', 'Invoice type code'],
+  currency: ['BT-5', 'Invoice currency code'],
+  dueDate: ['BT-9', 'Payment due date'],
+  buyerReference: ['BT-10', 'Buyer reference'],
+  purchaseOrder: ['BT-13', 'Purchase order reference'],
+  paymentTerms: ['BT-20', 'Payment terms'],
+  note: ['BT-22', 'Invoice note'],
+  sellerName: ['BT-27', 'Seller name'],
+  sellerVatId: ['BT-31', 'Seller VAT identifier'],
+  sellerStreet: ['BT-35', 'Seller address line'],
+  sellerCity: ['BT-37', 'Seller city'],
+  sellerPostalCode: ['BT-38', 'Seller post code'],
+  sellerCountry: ['BT-40', 'Seller country code'],
+  buyerName: ['BT-44', 'Buyer name'],
+  buyerVatId: ['BT-48', 'Buyer VAT identifier'],
+  buyerStreet: ['BT-50', 'Buyer address line'],
+  buyerCity: ['BT-52', 'Buyer city'],
+  buyerPostalCode: ['BT-53', 'Buyer post code'],
+  buyerCountry: ['BT-55', 'Buyer country code'],
+  taxExclusiveAmount: ['BT-109', 'Invoice total amount without VAT'],
+  taxAmount: ['BT-110', 'Invoice total VAT amount'],
+  taxInclusiveAmount: ['BT-112', 'Invoice total amount with VAT'],
+  prepaidAmount: ['BT-113', 'Paid amount'],
+  payableAmount: ['BT-115', 'Amount due for payment'],
+  taxCategory: ['BT-118', 'VAT category code'],
+  taxRate: ['BT-119', 'VAT category rate'],
+  exemptionReason: ['BT-120', 'VAT exemption reason text'],
+  lineId: ['BT-126', 'Invoice line identifier'],
+  lineName: ['BT-153', 'Item name'],
+  lineQuantity: ['BT-129', 'Invoiced quantity'],
+  lineUnitCode: ['BT-130', 'Invoiced quantity unit of measure code'],
+  lineAmount: ['BT-131', 'Invoice line net amount'],
+  linePrice: ['BT-146', 'Item net price'],
+  lineTaxCategory: ['BT-151', 'Invoiced item VAT category code'],
+  lineTaxRate: ['BT-152', 'Invoiced item VAT rate'],
+};
+
+/**
+ * Mapping keys of the business terms.
+ */
+type TermKey = keyof typeof TERMS;
+
+/**
+ * Kinds of text business terms hold.
+ */
+type TextKind = 'text' | 'date' | 'currency' | 'country';
+
+/**
+ * How to read a business term: on a line, whether it is mandatory, and the value to use when it is missing.
+ */
+interface ReadOptions<T> {
+  line?: LineContext;
+  required?: boolean;
+  fallback?: T;
+}
+
+/**
+ * A line item being read, with its 0-based position.
+ */
+interface LineContext {
+  item: Record<string, unknown>;
+  index: number;
+}
+
+/**
+ * A seller or buyer, read from the invoice.
+ */
+interface UblParty {
+  name?: string;
+  vatId?: string;
+  street?: string;
+  city?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+/**
+ * An invoice line, read from the invoice.
+ */
+interface UblLine {
+  id?: string;
+  name?: string;
+  quantity?: number;
+  unitCode?: string;
+  amount?: number;
+  price?: number;
+  taxCategory?: string;
+  taxRate?: number;
+}
+
+/**
+ * A VAT breakdown entry (BG-23): the lines of one VAT category and rate.
+ */
+interface UblTaxSubtotal {
+  taxableAmount: number;
+  taxAmount: number;
+  category?: string;
+  rate?: number;
+  exemptionReason?: string;
+}
+
+/**
+ * An invoice read from an extraction result, ready to be written as UBL.
+ */
+interface UblInvoice {
+  id?: string;
+  issueDate?: string;
+  typeCode?: string;
+  currency?: string;
+  dueDate?: string;
+  buyerReference?: string;
+  purchaseOrder?: string;
+  paymentTerms?: string;
+  note?: string;
+  seller: UblParty;
+  buyer: UblParty;
+  lineTotal: number;
+  taxExclusiveAmount?: number;
+  taxAmount?: number;
+  taxInclusiveAmount?: number;
+  prepaidAmount?: number;
+  payableAmount?: number;
+  breakdown: UblTaxSubtotal[];
+  lines: UblLine[];
+}
+
+/**
+ * An XML element. Elements without text or children are left out.
+ */
+interface XmlElement {
+  name: string;
+  attributes?: Record<string, string>;
+  text?: string;
+  children?: XmlElement[];
+}
+
+/**
+ * VAT categories that need the buyer's VAT identifier: reverse charge and intra-community supply.
+ */
+const BUYER_VAT_CATEGORIES = new Set(['AE', 'K']);
+
+/**
+ * VAT categories that need an exemption reason: exempt, reverse charge, intra-community
+ * supply, export outside the EU and out of scope.
+ */
+const EXEMPTION_CATEGORIES = new Set(['E', 'AE', 'K', 'G', 'O']);
+
+/**
+ * Converts an extracted invoice to a UBL 2.1 Invoice document following EN 16931.
+ *
+ * Business terms are read through the field mapping (see `DEFAULT_UBL_MAPPING`), which
+ * follows `schemas.invoice` and can be overridden per term. The VAT breakdown is built by
+ * grouping the lines by VAT category and rate. Terms that are missing are left out of the
+ * document; use `validateUbl` (or `strict`) to find out which ones.
+ *
+ * @param invoice - The extracted invoice (`ExtractResult.object`).
+ * @returns The UBL document as XML.
+ * @throws {ValidationError} With `strict`, if mandatory business terms are missing or unreadable.
+ *
+ * @example
+ * ```ts
+ * const { object } = await client.extract({ file: './invoice.pdf', schema: schemas.invoice });
+ *
+ * const xml = toUbl(object!, {
+ *   mapping: {
+ *     buyerReference: 'purchase_order',
+ *     buyerCountry: () => 'DE',
+ *   },
+ * });
+ * ```
+ */
+export function toUbl(invoice: object, options: UblOptions = {}): string {
+  const { model, issues } = readInvoice(invoice, options);
+  if (options.strict && issues.length > 0) {
+    throw new ValidationError(
+      `The invoice is not a complete EN 16931 invoice:\n${issues.map((issue) => `- ${issue.message}`).join('\n')}`
+    );
+  }
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${renderXml(buildInvoice(model, options), '')}\n`;
+}
+
+/**
+ * Checks an extracted invoice for the business terms EN 16931 makes mandatory, read through
+ * the same field mapping as `toUbl`.
+ *
+ * Besides the terms that are always mandatory (invoice number, dates, parties, totals, lines),
+ * this covers the conditional ones the VAT categories bring in: the VAT rate for every
+ * category but `'O'`, the seller VAT identifier for VAT-registered sales, the buyer VAT
+ * identifier for reverse charge and intra-community supply, and the exemption reason for
+ * categories that charge no VAT. Business rules that compare amounts are left to verification,
+ * except BR-CO-14: with several VAT rates the breakdown is computed from the rates, so an
+ * extracted total VAT amount that differs from its sum is reported.
+ *
+ * @param invoice - The extracted invoice (`ExtractResult.object`).
+ *
+ * @example
+ * ```ts
+ * const { valid, issues } = validateUbl(result.object!);
+ * if (!valid) {
+ *   // e.g. "Missing BT-40 Seller country code (vendor.country)"
+ *   console.warn(issues.map((issue) => issue.message));
+ * }
+ * ```
+ */
+export function validateUbl(invoice: object, options: UblOptions = {}): UblValidation {
+  const { issues } = readInvoice(invoice, options);
+  return { valid: issues.length === 0, issues };
+}
+
+/**
+ * Reads the business terms of an invoice through the mapping, collecting issues on the way.
+ */
+function readInvoice(
+  invoice: object,
+  options: UblOptions
+): { model: UblInvoice; issues: UblIssue[] } {
+  const mapping: UblMapping = { ...DEFAULT_UBL_MAPPING, ...options.mapping };
+  const source = invoice as Record<string, unknown>;
+  const issues: UblIssue[] = [];
+
+  const report = (key: TermKey, problem: string | null, line?: LineContext) => {
+    const [term, name] = TERMS[key];
+    const mapped = mapping[key];
+    const field =
+      typeof mapped !== 'string' ? undefined : line ? `${mapping.lines}.${mapped}` : mapped;
+    const where = `${line ? ` on line ${line.index + 1}` : ''}${field ? ` (${field})` : ''}`;
+    issues.push({
+      term,
+      name,
+      ...(field ? { field } : {}),
+      ...(line ? { line: line.index + 1 } : {}),
+      message: problem ? `${term} ${name}${where} ${problem}` : `Missing ${term} ${name}${where}`,
+    });
+  };
+
+  const resolve = (key: TermKey, line?: LineContext): unknown => {
+    const mapped = mapping[key];
+    if (mapped === null) return undefined;
+    if (typeof mapped === 'string') return getPath(line ? line.item : source, mapped);
+    return line
+      ? (mapped as Exclude<UblLineFieldSource, string | null>)(line.item, line.index, source)
+      : (mapped as Exclude<UblFieldSource, string | null>)(source);
+  };
+
+  const text = (key: TermKey, read: ReadOptions<string> & { kind?: TextKind } = {}) => {
+    const value = resolve(key, read.line);
+    if (value === undefined || value === null || value === '') {
+      if (read.fallback === undefined && read.required) report(key, null, read.line);
+      return read.fallback;
+    }
+    const result = toText(value, read.kind ?? 'text');
+    if (typeof result !== 'string') report(key, result.problem, read.line);
+    return typeof result === 'string' ? result : undefined;
+  };
+
+  const amount = (key: TermKey, read: ReadOptions<number> = {}) => {
+    const value = resolve(key, read.line);
+    if (value === undefined || value === null || value === '') {
+      if (read.fallback === undefined && read.required) report(key, null, read.line);
+      return read.fallback;
+    }
+    const result = toNumber(value);
+    if (result === undefined) report(key, `is not a number: ${JSON.stringify(value)}`, read.line);
+    return result;
+  };
+
+  const taxRate = amount('taxRate');
+  const taxCategory = text('taxCategory', { fallback: standardRated(taxRate) });
+
+  const lines: UblLine[] = [];
+  const items = getPath(source, mapping.lines);
+  if (Array.isArray(items) && items.length > 0) {
+    items.forEach((item, index) => {
+      const line: LineContext = { item: isPlainObject(item) ? item : {}, index };
+      const lineRate = amount('lineTaxRate', { line });
+      lines.push({
+        id: text('lineId', { line, required: true, fallback: String(index + 1) }),
+        name: text('lineName', { line, required: true }),
+        quantity: amount('lineQuantity', { line, required: true }),
+        unitCode: text('lineUnitCode', { line, required: true, fallback: 'C62' }),
+        amount: amount('lineAmount', { line, required: true }),
+        price: amount('linePrice', { line, required: true }),
+        taxCategory: text('lineTaxCategory', { line, fallback: standardRated(lineRate) }) ?? taxCategory,
+        taxRate: lineRate ?? taxRate,
+      });
+    });
+  } else {
+    issues.push({
+      term: 'BG-25',
+      name: 'Invoice line',
+      field: mapping.lines,
+      message: `Missing BG-25 Invoice line: the invoice has no line items (${mapping.lines})`,
+    });
+  }
+
+  // BT-106 is by definition the sum of the line net amounts
+  const lineTotal = round(lines.reduce((sum, line) => sum + (line.amount ?? 0), 0));
+  const sellerVatId = text('sellerVatId');
+  const buyerVatId = text('buyerVatId');
+  const taxInclusiveAmount = amount('taxInclusiveAmount', { required: true });
+  const prepaidAmount = amount('prepaidAmount');
+
+  const model: UblInvoice = {
+    id: text('invoiceNumber', { required: true }),
+    issueDate: text('issueDate', { required: true, kind: 'date' }),
+    typeCode: text('typeCode', { required: true, fallback: '380' }),
+    currency: text('currency', { required: true, kind: 'currency' }),
+    dueDate: text('dueDate', { kind: 'date' }),
+    buyerReference: text('buyerReference'),
+    purchaseOrder: text('purchaseOrder'),
+    paymentTerms: text('paymentTerms'),
+    note: text('note'),
+    seller: {
+      name: text('sellerName', { required: true }),
+      vatId: sellerVatId,
+      street: text('sellerStreet'),
+      city: text('sellerCity'),
+      postalCode: text('sellerPostalCode'),
+      country: text('sellerCountry', { required: true, kind: 'country', fallback: countryOfVatId(sellerVatId) }),
+    },
+    buyer: {
+      name: text('buyerName', { required: true }),
+      vatId: buyerVatId,
+      street: text('buyerStreet'),
+      city: text('buyerCity'),
+      postalCode: text('buyerPostalCode'),
+      country: text('buyerCountry', { required: true, kind: 'country', fallback: countryOfVatId(buyerVatId) }),
+    },
+    lineTotal,
+    taxExclusiveAmount: amount('taxExclusiveAmount', {
+      required: true,
+      fallback: lines.length > 0 ? lineTotal : undefined,
+    }),
+    taxAmount: amount('taxAmount'),
+    taxInclusiveAmount,
+    prepaidAmount,
+    payableAmount: amount('payableAmount', {
+      required: true,
+      fallback:
+        taxInclusiveAmount === undefined ? undefined : round(taxInclusiveAmount - (prepaidAmount ?? 0)),
+    }),
+    breakdown: [],
+    lines,
+  };
+
+  model.breakdown = buildBreakdown(model, taxCategory, taxRate);
+  const exemptionReason = text('exemptionReason');
+  for (const entry of model.breakdown) {
+    if (entry.category && EXEMPTION_CATEGORIES.has(entry.category)) {
+      entry.exemptionReason = exemptionReason;
+    }
+  }
+  // BR-CO-14: the total VAT amount is the sum of the breakdown
+  const breakdownTax = round(model.breakdown.reduce((sum, entry) => sum + entry.taxAmount, 0));
+  if (model.taxAmount === undefined) {
+    model.taxAmount = breakdownTax;
+  } else if (Math.abs(model.taxAmount - breakdownTax) >= 0.005) {
+    report(
+      'taxAmount',
+      `is ${formatAmount(model.taxAmount)}, but the VAT breakdown adds up to ${formatAmount(breakdownTax)} (BR-CO-14)`
+    );
+  }
+
+  // Conditional terms: the VAT breakdown needs a category, and a rate unless the sale is out of scope
+  if (model.breakdown.some((entry) => entry.category === undefined)) {
+    report('taxCategory', null);
+  }
+  if (model.breakdown.some((entry) => entry.category !== 'O' && entry.rate === undefined)) {
+    report('taxRate', null);
+  }
+  if (model.breakdown.some((entry) => entry.category !== undefined && entry.category !== 'O')) {
+    if (model.seller.vatId === undefined) report('sellerVatId', null);
+  }
+  if (model.breakdown.some((entry) => entry.category && BUYER_VAT_CATEGORIES.has(entry.category))) {
+    if (model.buyer.vatId === undefined) report('buyerVatId', null);
+  }
+  if (model.breakdown.some((entry) => entry.category && EXEMPTION_CATEGORIES.has(entry.category))) {
+    if (exemptionReason === undefined) report('exemptionReason', null);
+  }
+
+  // Report in the order of the standard, document-level terms first
+  issues.sort((a, b) => (a.line ?? 0) - (b.line ?? 0) || termNumber(a.term) - termNumber(b.term));
+  return { model, issues };
+}
+
+/**
+ * Groups the lines by VAT category and rate (BG-23). The invoice's VAT amount is used when
+ * there is a single group; otherwise each group's VAT is computed from its rate.
+ */
+function buildBreakdown(
+  model: UblInvoice,
+  category: string | undefined,
+  rate: number | undefined
+): UblTaxSubtotal[] {
+  if (model.lines.length === 0) {
+    const taxableAmount = model.taxExclusiveAmount ?? 0;
+    return [{ taxableAmount, taxAmount: model.taxAmount ?? vatOf(taxableAmount, rate), category, rate }];
+  }
+
+  const groups = new Map<string, UblTaxSubtotal>();
+  for (const line of model.lines) {
+    const key = `${line.taxCategory ?? ''}|${line.taxRate ?? ''}`;
+    const group = groups.get(key) ?? {
+      taxableAmount: 0,
+      taxAmount: 0,
+      category: line.taxCategory,
+      rate: line.taxRate,
+    };
+    group.taxableAmount = round(group.taxableAmount + (line.amount ?? 0));
+    groups.set(key, group);
+  }
+
+  const breakdown = [...groups.values()];
+  for (const group of breakdown) {
+    group.taxAmount =
+      breakdown.length === 1 && model.taxAmount !== undefined
+        ? model.taxAmount
+        : vatOf(group.taxableAmount, group.rate);
+  }
+  return breakdown;
+}
+
+/**
+ * Builds the UBL Invoice element. Elements follow the order of the UBL 2.1 schema.
+ */
+function buildInvoice(model: UblInvoice, options: UblOptions): XmlElement {
+  const currency = model.currency ? { currencyID: model.currency } : undefined;
+  const money = (name: string, value: number | undefined) =>
+    element(name, value === undefined ? undefined : formatAmount(value), currency);
+  const taxScheme = () => element('cac:TaxScheme', [element('cbc:ID', 'VAT')]);
+  const taxCategory = (
+    name: string,
+    category: string | undefined,
+    rate: number | undefined,
+    exemptionReason?: string
+  ) =>
+    element(name, [
+      element('cbc:ID', category),
+      element('cbc:Percent', rate === undefined ? undefined : formatDecimal(rate)),
+      element('cbc:TaxExemptionReason', exemptionReason),
+      taxScheme(),
+    ]);
+
+  return {
+    name: 'Invoice',
+    attributes: {
+      xmlns: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+      'xmlns:cac': 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2',
+      'xmlns:cbc': 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2',
+    },
+    children: compact([
+      element('cbc:CustomizationID', options.customizationId ?? 'urn:cen.eu:en16931:2017'),
+      element('cbc:ProfileID', options.profileId),
+      element('cbc:ID', model.id),
+      element('cbc:IssueDate', model.issueDate),
+      element('cbc:DueDate', model.dueDate),
+      element('cbc:InvoiceTypeCode', model.typeCode),
+      element('cbc:Note', model.note),
+      element('cbc:DocumentCurrencyCode', model.currency),
+      element('cbc:BuyerReference', model.buyerReference),
+      element('cac:OrderReference', [element('cbc:ID', model.purchaseOrder)]),
+      buildParty('cac:AccountingSupplierParty', model.seller),
+      buildParty('cac:AccountingCustomerParty', model.buyer),
+      element('cac:PaymentTerms', [element('cbc:Note', model.paymentTerms)]),
+      element('cac:TaxTotal', [
+        money('cbc:TaxAmount', model.taxAmount),
+        ...model.breakdown.map((entry) =>
+          element('cac:TaxSubtotal', [
+            money('cbc:TaxableAmount', entry.taxableAmount),
+            money('cbc:TaxAmount', entry.taxAmount),
+            taxCategory('cac:TaxCategory', entry.category, entry.rate, entry.exemptionReason),
+          ])
+        ),
+      ]),
+      element('cac:LegalMonetaryTotal', [
+        money('cbc:LineExtensionAmount', model.lineTotal),
+        money('cbc:TaxExclusiveAmount', model.taxExclusiveAmount),
+        money('cbc:TaxInclusiveAmount', model.taxInclusiveAmount),
+        money('cbc:PrepaidAmount', model.prepaidAmount),
+        money('cbc:PayableAmount', model.payableAmount),
+      ]),
+      ...model.lines.map((line) =>
+        element('cac:InvoiceLine', [
+          element('cbc:ID', line.id),
+          element(
+            'cbc:InvoicedQuantity',
+            line.quantity === undefined ? undefined : formatDecimal(line.quantity),
+            line.unitCode ? { unitCode: line.unitCode } : undefined
+          ),
+          money('cbc:LineExtensionAmount', line.amount),
+          element('cac:Item', [
+            element('cbc:Name', line.name),
+            taxCategory('cac:ClassifiedTaxCategory', line.taxCategory, line.taxRate),
+          ]),
+          element('cac:Price', [
+            element(
+              'cbc:PriceAmount',
+              line.price === undefined ? undefined : formatDecimal(line.price),
+              currency
+            ),
+          ]),
+        ])
+      ),
+    ]),
+  };
+}
+
+function buildParty(name: string, party: UblParty): XmlElement | null {
+  return element(name, [
+    element('cac:Party', [
+      element('cac:PostalAddress', [
+        element('cbc:StreetName', party.street),
+        element('cbc:CityName', party.city),
+        element('cbc:PostalZone', party.postalCode),
+        element('cac:Country', [element('cbc:IdentificationCode', party.country)]),
+      ]),
+      party.vatId === undefined
+        ? null
+        : element('cac:PartyTaxScheme', [
+            element('cbc:CompanyID', party.vatId),
+            element('cac:TaxScheme', [element('cbc:ID', 'VAT')]),
+          ]),
+      element('cac:PartyLegalEntity', [element('cbc:RegistrationName', party.name)]),
+    ]),
+  ]);
+}
+
+/**
+ * Creates an element, or returns null when it has no text and no children.
+ */
+function element(
+  name: string,
+  content: string | Array<XmlElement | null> | undefined,
+  attributes?: Record<string, string>
+): XmlElement | null {
+  if (content === undefined) return null;
+  if (typeof content === 'string') return { name, attributes, text: content };
+  const children = compact(content);
+  return children.length > 0 ? { name, attributes, children } : null;
+}
+
+function compact(elements: Array<XmlElement | null>): XmlElement[] {
+  return elements.filter((item): item is XmlElement => item !== null);
+}
+
+function renderXml(node: XmlElement, indent: string): string {
+  const attributes = Object.entries(node.attributes ?? {})
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join('');
+  if (node.children) {
+    const children = node.children.map((child) => renderXml(child, `${indent}  `)).join('\n');
+    return `${indent}<${node.name}${attributes}>\n${children}\n${indent}</${node.name}>`;
+  }
+  return `${indent}<${node.name}${attributes}>${escapeXml(node.text ?? '')}</${node.name}>`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Reads a mapped value as the kind of text a business term holds.
+ * Returns the text, or a description of why it cannot be read.
+ */
+function toText(value: unknown, kind: TextKind): string | { problem: string } {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return { problem: `is not text: ${JSON.stringify(value)}` };
+  }
+  const text = String(value).trim();
+  switch (kind) {
+    case 'date':
+      return isIsoDate(text) ? text : { problem: `is not a YYYY-MM-DD date: "${text}"` };
+    case 'currency':
+      return /^[A-Z]{3}$/i.test(text)
+        ? text.toUpperCase()
+        : { problem: `is not an ISO 4217 currency code: "${text}"` };
+    case 'country':
+      return /^[A-Z]{2}$/i.test(text)
+        ? text.toUpperCase()
+        : { problem: `is not an ISO 3166-1 alpha-2 country code: "${text}"` };
+    default:
+      return text;
+  }
+}
+
+/**
+ * Reads a number, a number formatted for humans or a normalized money value (`{ amount }`).
+ */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string') return parseNumberLike(value) ?? undefined;
+  if (isPlainObject(value) && 'amount' in value) return toNumber(value.amount);
+  return undefined;
+}
+
+function isIsoDate(text: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (!match) return false;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.toISOString().startsWith(text);
+}
+
+/**
+ * Country of a VAT id from its prefix. VAT ids use EL for Greece and XI for Northern Ireland.
+ */
+function countryOfVatId(vatId: string | undefined): string | undefined {
+  const prefix = vatId?.replace(/[\s.\-]/g, '').slice(0, 2).toUpperCase();
+  if (!prefix || !(prefix in VAT_ID_FORMATS)) return undefined;
+  return prefix === 'EL' ? 'GR' : prefix === 'XI' ? 'GB' : prefix;
+}
+
+/**
+ * Sort key of a business term: BT-* by number, then business groups (BG-*).
+ */
+function termNumber(term: string): number {
+  const number = Number(term.replace(/^\D+/, ''));
+  return term.startsWith('BG') ? 1000 + number : number;
+}
+
+function standardRated(rate: number | undefined): string | undefined {
+  return rate !== undefined && rate > 0 ? 'S' : undefined;
+}
+
+function vatOf(taxableAmount: number, rate: number | undefined): number {
+  return rate === undefined ? 0 : round((taxableAmount * rate) / 100);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatAmount(value: number): string {
+  return round(value).toFixed(2);
+}
+
+/**
+ * Formats quantities, prices and rates without exponent notation or float noise.
+ */
+function formatDecimal(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
+
+function getPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
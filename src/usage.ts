@@ -0,0 +1,224 @@
+import type { BudgetConfig, ExtractResult, JsonSchema, UsageSnapshot, UsageTotals } from './types';
+import { BudgetExceededError, ValidationError } from './errors';
+import { sha256Hex, stableStringify } from './utils';
+
+/**
+ * Raw counters behind `UsageTotals`; rates and averages are derived in snapshots.
+ */
+type Counters = Omit<UsageTotals, 'fallbackRate' | 'averageProcessingTimeMs'>;
+
+/**
+ * Labels an extraction is recorded under.
+ * @internal
+ */
+export interface UsageLabels {
+  /** Key of the schema, from `schemaUsageKey`. */
+  schema: string;
+  /** The `tag` extract option. */
+  tag?: string;
+}
+
+/**
+ * Accumulates credits, pages, fallback rate and processing time of extractions,
+ * overall and per schema and tag, and enforces an optional credit budget.
+ *
+ * Every client records into its tracker (`client.usage`). Share one tracker between
+ * clients by passing it as the `usage` option.
+ *
+ * @example
+ * ```ts
+ * const client = new Parsefy({
+ *   budget: { softLimit: 800, hardLimit: 1000, onSoftLimit: (usage) => alert(usage.credits) },
+ * });
+ *
+ * await client.extract({ file, schema, tag: 'acme' });
+ *
+ * const usage = client.usage.snapshot();
+ * console.log(usage.credits, usage.fallbackRate, usage.byTag.acme?.credits);
+ * ```
+ */
+export class UsageTracker {
+  private readonly budget: BudgetConfig;
+  private totals: Counters = emptyCounters();
+  private bySchema = new Map<string, Counters>();
+  private byTag = new Map<string, Counters>();
+  private since = new Date();
+  private softLimitReached = false;
+  /** Credits reserved by calls in flight, counted against the hard limit until they are recorded. */
+  private reserved = 0;
+
+  constructor(options: { budget?: BudgetConfig } = {}) {
+    const budget = options.budget ?? {};
+    for (const name of ['hardLimit', 'softLimit'] as const) {
+      const limit = budget[name];
+      if (limit !== undefined && (!Number.isFinite(limit) || limit < 0)) {
+        throw new ValidationError(`budget.${name} must be a non-negative number of credits`);
+      }
+    }
+    this.budget = budget;
+  }
+
+  /**
+   * Returns a copy of the usage recorded so far.
+   */
+  snapshot(): UsageSnapshot {
+    const { hardLimit, softLimit } = this.budget;
+    const snapshot: UsageSnapshot = {
+      ...toTotals(this.totals),
+      bySchema: Object.fromEntries([...this.bySchema].map(([key, value]) => [key, toTotals(value)])),
+      byTag: Object.fromEntries([...this.byTag].map(([key, value]) => [key, toTotals(value)])),
+      since: this.since.toISOString(),
+    };
+    if (hardLimit !== undefined || softLimit !== undefined) {
+      snapshot.budget = {
+        hardLimit,
+        softLimit,
+        remaining: hardLimit !== undefined ? Math.max(0, hardLimit - this.totals.credits) : undefined,
+      };
+    }
+    return snapshot;
+  }
+
+  /**
+   * Clears all usage, e.g. at the start of a billing period. The budget applies anew.
+   * Credits reserved by calls still in flight stay reserved until those calls are recorded.
+   */
+  reset(): void {
+    this.totals = emptyCounters();
+    this.bySchema.clear();
+    this.byTag.clear();
+    this.since = new Date();
+    this.softLimitReached = false;
+  }
+
+  /**
+   * Throws a `BudgetExceededError` if the hard limit has been reached, counting the credits
+   * reserved by calls in flight.
+   * @internal
+   */
+  assertWithinBudget(): void {
+    const { hardLimit } = this.budget;
+    if (hardLimit !== undefined && this.totals.credits + this.reserved >= hardLimit) {
+      const inFlight = this.reserved > 0 ? ` (${this.reserved} reserved by calls in flight)` : '';
+      throw new BudgetExceededError(
+        `Credit budget exceeded: ${this.totals.credits} of ${hardLimit} credits used${inFlight}`,
+        hardLimit,
+        this.snapshot()
+      );
+    }
+  }
+
+  /**
+   * Checks the budget and reserves credits for a call about to be made, so parallel calls
+   * cannot all pass against the same total. A call reserves one credit, the least it can be
+   * billed. Settle the reservation with `record`, `recordFailure` or `release`.
+   * @internal
+   * @returns The reserved credits.
+   */
+  reserve(credits = 1): number {
+    this.assertWithinBudget();
+    this.reserved += credits;
+    return credits;
+  }
+
+  /**
+   * Releases credits reserved with `reserve`.
+   * @internal
+   */
+  release(credits: number): void {
+    this.reserved = Math.max(0, this.reserved - credits);
+  }
+
+  /**
+   * Records a result, settling the credits reserved for it.
+   * @internal
+   */
+  record(result: ExtractResult<unknown>, labels: UsageLabels, reserved = 0): void {
+    this.release(reserved);
+    const { metadata } = result;
+    const hit = result.cache?.hit === true;
+
+    this.update(labels, (counters) => {
+      counters.requests++;
+      counters.credits += metadata.credits;
+      if (result.error) counters.extractionErrors++;
+      if (hit) {
+        counters.cacheHits++;
+        counters.pages += result.cache?.originalCredits ?? 0;
+        return;
+      }
+      // Processing time and fallback only describe documents the API actually processed
+      counters.pages += metadata.credits;
+      counters.processingTimeMs += metadata.processing_time_ms;
+      if (metadata.fallback_triggered) counters.fallbacks++;
+    });
+
+    const { softLimit, onSoftLimit } = this.budget;
+    if (softLimit !== undefined && !this.softLimitReached && this.totals.credits >= softLimit) {
+      this.softLimitReached = true;
+      onSoftLimit?.(this.snapshot());
+    }
+  }
+
+  /**
+   * Records a request that failed with an error, releasing the credits reserved for it.
+   * @internal
+   */
+  recordFailure(labels: UsageLabels, reserved = 0): void {
+    this.release(reserved);
+    this.update(labels, (counters) => {
+      counters.failedRequests++;
+    });
+  }
+
+  private update(labels: UsageLabels, apply: (counters: Counters) => void): void {
+    apply(this.totals);
+    apply(getOrCreate(this.bySchema, labels.schema));
+    if (labels.tag !== undefined) {
+      apply(getOrCreate(this.byTag, labels.tag));
+    }
+  }
+}
+
+/**
+ * Computes the key a schema is tracked under: its `title`, or a short fingerprint.
+ * @internal
+ */
+export async function schemaUsageKey(jsonSchema: JsonSchema): Promise<string> {
+  if (typeof jsonSchema.title === 'string' && jsonSchema.title) {
+    return jsonSchema.title;
+  }
+  const hash = await sha256Hex(new TextEncoder().encode(stableStringify(jsonSchema)));
+  return `schema:${hash.slice(0, 12)}`;
+}
+
+function emptyCounters(): Counters {
+  return {
+    requests: 0,
+    failedRequests: 0,
+    extractionErrors: 0,
+    credits: 0,
+    pages: 0,
+    cacheHits: 0,
+    fallbacks: 0,
+    processingTimeMs: 0,
+  };
+}
+
+function getOrCreate(map: Map<string, Counters>, key: string): Counters {
+  let counters = map.get(key);
+  if (!counters) {
+    counters = emptyCounters();
+    map.set(key, counters);
+  }
+  return counters;
+}
+
+function toTotals(counters: Counters): UsageTotals {
+  const processed = counters.requests - counters.cacheHits;
+  return {
+    ...counters,
+    fallbackRate: processed > 0 ? counters.fallbacks / processed : 0,
+    averageProcessingTimeMs: processed > 0 ? counters.processingTimeMs / processed : 0,
+  };
+}
@@ -1,14 +1,24 @@
 import type { z } from 'zod';
+import type { $ZodType } from 'zod/v4/core';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import {
   MIME_TYPES,
-  MAX_FILE_SIZE,
+  DEFAULT_CONFIDENCE_THRESHOLD,
+  MAX_FILE_SIZES,
   type SupportedMimeType,
   type RawAPIResponse,
   type ExtractResult,
+  type ExtractionMetadata,
   type VerificationStatus,
+  type SchemaInput,
+  type JsonSchema,
+  type StandardSchemaV1,
+  type ImagePreprocessOptions,
+  type PageSelection,
 } from './types';
-import { ValidationError } from './errors';
+import { ResponseParseError, ValidationError } from './errors';
+import { isImageMimeType, preprocessImage } from './preprocess';
+import { selectPdfPages } from './pages';
 
 /**
  * Checks if the code is running in a Node.js environment.
@@ -18,6 +28,39 @@ export function isNode(): boolean {
   return typeof process !== 'undefined' && process.versions?.node !== undefined;
 }
 
+/**
+ * Zod 4's JSON Schema converter. It is loaded on first use, since Zod 3 releases before 3.25
+ * do not have `zod/v4/core`.
+ */
+let zod4ToJsonSchema: typeof import('zod/v4/core').toJSONSchema | undefined;
+
+/**
+ * Loads Zod 4's JSON Schema converter (`zod/v4/core`). Client calls load it on their own when
+ * given a Zod 4 schema; call it once before passing a Zod 4 schema to the synchronous
+ * `analyzeSchema` or `exportResults`.
+ */
+export async function preloadZod4(): Promise<void> {
+  if (zod4ToJsonSchema) return;
+  try {
+    zod4ToJsonSchema = (await import('zod/v4/core')).toJSONSchema;
+  } catch {
+    throw new ValidationError(
+      'Zod 4 schemas require zod 3.25 or later (for "zod/v4/core")',
+      'MISSING_DEPENDENCY'
+    );
+  }
+}
+
+/**
+ * Loads what converting `schema` needs: Zod 4's converter for Zod 4 schemas.
+ * @internal
+ */
+export async function loadSchemaConverter(schema: SchemaInput): Promise<void> {
+  if (isZod4Schema(schema)) {
+    await preloadZod4();
+  }
+}
+
 /**
  * Converts a Zod schema to JSON Schema format for the API.
  * Preserves .describe() annotations which guide the AI extraction.
@@ -41,11 +84,25 @@ export function isNode(): boolean {
  *
  * @internal
  */
-export function zodSchemaToJsonSchema(schema: z.ZodType): Record<string, unknown> {
-  const jsonSchema = zodToJsonSchema(schema, {
-    $refStrategy: 'none',
-    target: 'jsonSchema7',
-  }) as Record<string, unknown>;
+export function zodSchemaToJsonSchema(schema: z.ZodType | $ZodType): Record<string, unknown> {
+  if (isZod4Schema(schema) && !zod4ToJsonSchema) {
+    throw new ValidationError(
+      'Zod 4 schemas need their converter loaded first: call `await preloadZod4()` once'
+    );
+  }
+
+  // Zod 4 converts natively; the input side matches zod-to-json-schema's handling of effects
+  const jsonSchema = isZod4Schema(schema)
+    ? (zod4ToJsonSchema!(schema, {
+        target: 'draft-7',
+        io: 'input',
+        reused: 'inline',
+        unrepresentable: 'any',
+      }) as Record<string, unknown>)
+    : (zodToJsonSchema(schema, {
+        $refStrategy: 'none',
+        target: 'jsonSchema7',
+      }) as Record<string, unknown>);
 
   // Remove $schema URL as some APIs find it strict/unnecessary
   if ('$schema' in jsonSchema) {
@@ -56,40 +113,115 @@ export function zodSchemaToJsonSchema(schema: z.ZodType): Record<string, unknown
 }
 
 /**
- * Gets the MIME type for a file based on its extension.
+ * Checks whether a schema input is a Zod schema (Zod 3 or Zod 4).
  * @internal
  */
-export function getMimeType(filename: string): SupportedMimeType | null {
-  const ext = filename.toLowerCase().match(/\.[^.]+$/)?.[0];
-  if (!ext) return null;
-  return MIME_TYPES[ext] || null;
+export function isZodSchema(schema: SchemaInput): schema is z.ZodType | $ZodType {
+  return (
+    typeof schema === 'object' &&
+    schema !== null &&
+    (isZod4Schema(schema) ||
+      ('_def' in schema && typeof (schema as { safeParse?: unknown }).safeParse === 'function'))
+  );
 }
 
 /**
- * Validates that a file extension is supported.
+ * Checks whether a schema input is a Zod 4 schema (including Zod Mini).
  * @internal
  */
-export function validateFileExtension(filename: string): void {
-  const mimeType = getMimeType(filename);
-  if (!mimeType) {
-    const supportedExtensions = Object.keys(MIME_TYPES).join(', ');
-    throw new ValidationError(
-      `Unsupported file type. Supported types: ${supportedExtensions}`
-    );
+export function isZod4Schema(schema: unknown): schema is $ZodType {
+  return typeof schema === 'object' && schema !== null && '_zod' in schema;
+}
+
+/**
+ * Checks whether a schema input implements the Standard Schema spec.
+ * @internal
+ */
+export function isStandardSchema(schema: unknown): schema is StandardSchemaV1 {
+  if ((typeof schema !== 'object' && typeof schema !== 'function') || schema === null) {
+    return false;
+  }
+  const standard = (schema as Partial<StandardSchemaV1>)['~standard'];
+  return typeof standard === 'object' && standard !== null && typeof standard.validate === 'function';
+}
+
+/**
+ * Converts any supported schema input to the JSON Schema sent to the API.
+ *
+ * - Zod 3: converted with `zod-to-json-schema`.
+ * - Zod 4: converted with Zod's native `toJSONSchema`.
+ * - Standard Schema: converted with the Standard JSON Schema `~standard.jsonSchema` converter,
+ *   or the library's `toJsonSchema()` method (ArkType).
+ * - Plain JSON Schema objects are passed through (without `$schema`).
+ *
+ * `override` is used as-is when given, which is how validators without a converter are supported.
+ * @internal
+ */
+export function toJsonSchema(schema: SchemaInput, override?: JsonSchema): JsonSchema {
+  if (override !== undefined) {
+    return toJsonSchema(override);
+  }
+
+  if (isZodSchema(schema)) {
+    return zodSchemaToJsonSchema(schema);
   }
+
+  if (isStandardSchema(schema)) {
+    const standard = schema['~standard'];
+    const toJson = (schema as { toJsonSchema?: () => JsonSchema }).toJsonSchema;
+    let converted: unknown;
+    try {
+      if (standard.jsonSchema) {
+        converted = standard.jsonSchema.input({ target: 'draft-07' });
+      } else if (typeof toJson === 'function') {
+        converted = toJson.call(schema);
+      }
+    } catch (error) {
+      throw new ValidationError(
+        `Failed to convert ${standard.vendor} schema to JSON Schema: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (converted === undefined) {
+      throw new ValidationError(
+        `${standard.vendor} schemas cannot be converted to JSON Schema automatically. ` +
+          'Pass the JSON Schema as the `jsonSchema` option (e.g. from @valibot/to-json-schema)'
+      );
+    }
+    return toJsonSchema(converted as JsonSchema);
+  }
+
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    throw new ValidationError('Schema must be a Zod schema, a Standard Schema or a JSON Schema object');
+  }
+
+  const { $schema: _ignored, ...jsonSchema } = schema;
+  return jsonSchema;
+}
+
+/**
+ * Gets the MIME type for a file based on its extension.
+ * @internal
+ */
+export function getMimeType(filename: string): SupportedMimeType | null {
+  const ext = filename.toLowerCase().match(/\.[^.]+$/)?.[0];
+  if (!ext) return null;
+  return MIME_TYPES[ext] || null;
 }
 
 /**
- * Validates that a file size is within limits.
+ * Validates that a file size is within the limit for its MIME type.
+ * Without a MIME type, only checks that the file is not empty.
  * @internal
  */
-export function validateFileSize(size: number): void {
+export function validateFileSize(size: number, mimeType?: SupportedMimeType): void {
   if (size === 0) {
     throw new ValidationError('File is empty');
   }
-  if (size > MAX_FILE_SIZE) {
-    const maxMB = MAX_FILE_SIZE / (1024 * 1024);
-    throw new ValidationError(`File size exceeds maximum limit of ${maxMB}MB`);
+  if (mimeType && size > MAX_FILE_SIZES[mimeType]) {
+    const maxMB = MAX_FILE_SIZES[mimeType] / (1024 * 1024);
+    throw new ValidationError(
+      `File size exceeds maximum limit of ${maxMB}MB for ${getExtension(mimeType)} files`
+    );
   }
 }
 
@@ -106,25 +238,32 @@ export function transformResponse<T>(raw: RawAPIResponse): ExtractResult<T> {
     issues: [],
   };
 
-  const result: ExtractResult<T> = {
-    object: raw.object as T | null,
-    metadata: {
-      processing_time_ms: raw.metadata.processing_time_ms,
-      credits: raw.metadata.credits,
-      fallback_triggered: raw.metadata.fallback_triggered,
-      confidence_score: meta.confidence_score,
-      field_confidence: meta.field_confidence.map((fc) => ({
-        field: fc.field,
-        score: fc.score,
-        reason: fc.reason,
-        page: fc.page,
-        text: fc.text,
-      })),
-      issues: meta.issues,
-    },
-    error: raw.error,
+  const metadata: ExtractionMetadata = {
+    processing_time_ms: raw.metadata.processing_time_ms,
+    credits: raw.metadata.credits,
+    fallback_triggered: raw.metadata.fallback_triggered,
+    confidence_score: meta.confidence_score,
+    field_confidence: meta.field_confidence.map((fc) => ({
+      field: fc.field,
+      score: fc.score,
+      reason: fc.reason,
+      page: fc.page,
+      text: fc.text,
+    })),
+    issues: meta.issues,
   };
 
+  // Keep the invariant that `object` is set whenever `error` is null
+  const result: ExtractResult<T> = raw.error
+    ? { object: null, metadata, error: raw.error }
+    : raw.object !== null
+      ? { object: raw.object as T, metadata, error: null }
+      : {
+          object: null,
+          metadata,
+          error: { code: 'EMPTY_RESULT', message: 'The API returned neither an object nor an error' },
+        };
+
   // Add verification if present
   if (raw.verification) {
     result.verification = {
@@ -148,35 +287,232 @@ export function transformResponse<T>(raw: RawAPIResponse): ExtractResult<T> {
 }
 
 /**
- * Creates a File object from a Buffer with the given filename.
+ * Transforms a raw extraction response, reporting malformed responses as `TRANSFORM_ERROR`.
+ * @internal
+ */
+export function parseExtractResponse<T>(raw: RawAPIResponse): ExtractResult<T> {
+  try {
+    return transformResponse<T>(raw);
+  } catch (transformError) {
+    throw new ResponseParseError(
+      `Failed to transform API response: ${transformError instanceof Error ? transformError.message : String(transformError)}`,
+      'TRANSFORM_ERROR'
+    );
+  }
+}
+
+/**
+ * Builds the multipart form data for an extraction request.
+ * @internal
+ */
+export function buildFormData(
+  file: File | Blob,
+  jsonSchema: JsonSchema,
+  options: { confidenceThreshold?: number; enableVerification?: boolean }
+): FormData {
+  const { confidenceThreshold, enableVerification } = options;
+
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('output_schema', JSON.stringify(jsonSchema));
+  formData.append(
+    'confidence_threshold',
+    String(confidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD)
+  );
+
+  // Add enable_verification if provided
+  if (enableVerification !== undefined) {
+    formData.append('enable_verification', String(enableVerification));
+  }
+
+  return formData;
+}
+
+/**
+ * Gets the canonical file extension for a supported MIME type.
+ * @internal
+ */
+export function getExtension(mimeType: SupportedMimeType): string {
+  return Object.keys(MIME_TYPES).find((ext) => MIME_TYPES[ext] === mimeType) || '';
+}
+
+/**
+ * Detects the document type from its first bytes (magic numbers).
+ * CSV has no signature, so plain text is only accepted as CSV when it looks
+ * delimited or when `filename` has a .csv extension.
+ * Returns null if the content is not a supported document type.
+ * @internal
+ */
+export function sniffMimeType(head: Uint8Array, filename?: string): SupportedMimeType | null {
+  // PDF: "%PDF-"
+  if (startsWith(head, [0x25, 0x50, 0x44, 0x46, 0x2d])) {
+    return 'application/pdf';
+  }
+
+  // PNG: "\x89PNG\r\n\x1a\n"
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+
+  // JPEG: SOI marker
+  if (startsWith(head, [0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+
+  // TIFF: little-endian "II*\0" or big-endian "MM\0*"
+  if (
+    startsWith(head, [0x49, 0x49, 0x2a, 0x00]) ||
+    startsWith(head, [0x4d, 0x4d, 0x00, 0x2a])
+  ) {
+    return 'image/tiff';
+  }
+
+  // HEIC: ISO base media "ftyp" box with a HEIF brand
+  if (ascii(head, 4, 8) === 'ftyp' && HEIC_BRANDS.includes(ascii(head, 8, 12))) {
+    return 'image/heic';
+  }
+
+  // ZIP container ("PK\x03\x04"): DOCX stores its parts under "word/", XLSX under "xl/"
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04])) {
+    const names = zipEntryNames(head);
+    if (names.some((name) => name.startsWith('word/'))) {
+      return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    }
+    if (names.some((name) => name.startsWith('xl/'))) {
+      return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    }
+    // Streaming zip writers put the parts after entries whose size is unknown up front,
+    // so the head may not reach them: trust a .docx/.xlsx extension
+    const byName = filename ? getMimeType(filename) : null;
+    return byName !== null && OFFICE_MIME_TYPES.includes(byName) ? byName : null;
+  }
+
+  if (looksLikeCsv(head, filename)) {
+    return 'text/csv';
+  }
+
+  return null;
+}
+
+/**
+ * Brands found in the "ftyp" box of HEIC/HEIF images.
+ * @internal
+ */
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+/**
+ * Document types stored in ZIP containers.
+ * @internal
+ */
+const OFFICE_MIME_TYPES: SupportedMimeType[] = [
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+/**
+ * Lists the entry names found in the local file headers of a ZIP head.
+ * Stops at the first entry whose compressed size is not known up front.
+ * @internal
+ */
+function zipEntryNames(head: Uint8Array): string[] {
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  const names: string[] = [];
+  let offset = 0;
+
+  while (offset + 30 <= head.length && view.getUint32(offset, true) === 0x04034b50) {
+    const flags = view.getUint16(offset + 6, true);
+    const compressedSize = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const extraLength = view.getUint16(offset + 28, true);
+
+    names.push(ascii(head, offset + 30, offset + 30 + nameLength));
+
+    // Bit 3: sizes are stored after the data, so the next header cannot be located
+    if (flags & 0x08) break;
+    offset += 30 + nameLength + extraLength + compressedSize;
+  }
+
+  return names;
+}
+
+/**
+ * Checks whether the head of a file is plain text that can be read as CSV.
+ * @internal
+ */
+function looksLikeCsv(head: Uint8Array, filename?: string): boolean {
+  if (head.length === 0) return false;
+
+  // Binary content: NUL or other control characters besides tab, CR and LF
+  for (const byte of head) {
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d) {
+      return false;
+    }
+  }
+
+  if (filename && getMimeType(filename) === 'text/csv') {
+    return true;
+  }
+
+  const firstLine = new TextDecoder().decode(head).split(/\r?\n/)[0];
+  return /[,;\t]/.test(firstLine);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...bytes.subarray(start, Math.min(end, bytes.length)));
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Replaces the extension of `filename` if it does not match `mimeType`.
+ * @internal
+ */
+export function withExtension(filename: string, mimeType: SupportedMimeType): string {
+  if (getMimeType(filename) === mimeType) {
+    return filename;
+  }
+  const base = filename.replace(/\.[^./\\]+$/, '') || 'document';
+  return `${base}${getExtension(mimeType)}`;
+}
+
+/**
+ * Creates a File object from binary content with the given filename and MIME type.
  * Works in both Node.js and browser environments.
  * @internal
  */
-export function bufferToFile(buffer: Buffer, filename: string): File | Blob {
-  const mimeType = getMimeType(filename) || 'application/octet-stream';
-  
-  // Convert Buffer to ArrayBuffer for cross-platform compatibility
-  const arrayBuffer = buffer.buffer.slice(
-    buffer.byteOffset,
-    buffer.byteOffset + buffer.byteLength
-  ) as ArrayBuffer;
-  
-  // In Node.js 18+, File is available globally
+export function toUploadFile(
+  content: Blob | Buffer,
+  filename: string,
+  mimeType: SupportedMimeType
+): File | Blob {
+  // Buffers are copied into an ArrayBuffer for cross-platform compatibility;
+  // Blobs are passed by reference so file-backed Blobs stay lazy
+  const part = Buffer.isBuffer(content)
+    ? (content.buffer.slice(
+        content.byteOffset,
+        content.byteOffset + content.byteLength
+      ) as ArrayBuffer)
+    : content;
+
+  // In Node.js 20+, File is available globally
   if (typeof File !== 'undefined') {
-    return new File([arrayBuffer], filename, { type: mimeType });
+    return new File([part], filename, { type: mimeType });
   }
-  
+
   // Fallback to Blob if File is not available
-  return new Blob([arrayBuffer], { type: mimeType });
+  return new Blob([part], { type: mimeType });
 }
 
 /**
- * Reads a file from the filesystem (Node.js only).
+ * Opens a file from the filesystem as a Blob without reading it into memory (Node.js only).
+ * Falls back to reading the file on Node.js versions without `fs.openAsBlob`.
  * @internal
  */
-export async function readFileFromPath(
+export async function openFileFromPath(
   filePath: string
-): Promise<{ buffer: Buffer; filename: string }> {
+): Promise<{ blob: Blob; filename: string }> {
   if (!isNode()) {
     throw new ValidationError(
       'File path strings are only supported in Node.js. Use File or Blob in the browser.'
@@ -187,18 +523,47 @@ export async function readFileFromPath(
   const fs = await import('fs');
   const path = await import('path');
 
-  // Check if file exists
-  if (!fs.existsSync(filePath)) {
+  let size: number;
+  try {
+    const stats = await fs.promises.stat(filePath);
+    if (!stats.isFile()) {
+      throw new ValidationError(`Not a file: ${filePath}`);
+    }
+    size = stats.size;
+  } catch (error) {
+    if (error instanceof ValidationError) throw error;
     throw new ValidationError(`File not found: ${filePath}`);
   }
+  validateFileSize(size);
 
-  const filename = path.basename(filePath);
-  validateFileExtension(filename);
+  // fs.openAsBlob (Node.js 19.8+) streams the content from disk when the request is sent
+  const blob =
+    typeof fs.openAsBlob === 'function'
+      ? await fs.openAsBlob(filePath)
+      : new Blob([await fs.promises.readFile(filePath)]);
 
-  const buffer = fs.readFileSync(filePath);
-  validateFileSize(buffer.length);
+  return { blob, filename: path.basename(filePath) };
+}
+
+/**
+ * Options for preparing a file for upload.
+ * @internal
+ */
+export interface PrepareFileOptions {
+  filename?: string;
+  mimeType?: SupportedMimeType;
+  preprocess?: boolean | ImagePreprocessOptions;
+  pages?: PageSelection;
+}
 
-  return { buffer, filename };
+/**
+ * A file prepared for upload.
+ * @internal
+ */
+export interface PreparedDocument {
+  file: File | Blob;
+  /** Pages of the original PDF in the uploaded file, when `pages` trimmed it. */
+  pages?: number[];
 }
 
 /**
@@ -207,39 +572,124 @@ export async function readFileFromPath(
  * @internal
  */
 export async function prepareFile(
-  input: File | Blob | Buffer | string
+  input: File | Blob | Buffer | string,
+  options: PrepareFileOptions = {}
 ): Promise<File | Blob> {
-  // String input = file path (Node.js only)
+  return (await prepareDocument(input, options)).file;
+}
+
+/**
+ * Prepares a file input for upload, handling all supported input types.
+ * The document type is detected from the content, so Buffers and Blobs get
+ * the right MIME type and filename. Unsupported content fails before any upload.
+ * PDFs are trimmed to the selected `pages` and images are optionally preprocessed
+ * before the per-format size limit is checked.
+ * @internal
+ */
+export async function prepareDocument(
+  input: File | Blob | Buffer | string,
+  options: PrepareFileOptions = {}
+): Promise<PreparedDocument> {
+  let content: Blob | Buffer;
+  let originalName: string | undefined;
+
   if (typeof input === 'string') {
-    const { buffer, filename } = await readFileFromPath(input);
-    return bufferToFile(buffer, filename);
+    // String input = file path (Node.js only)
+    const { blob, filename } = await openFileFromPath(input);
+    content = blob;
+    originalName = filename;
+  } else if (typeof Buffer !== 'undefined' && Buffer.isBuffer(input)) {
+    // Buffer input (Node.js)
+    content = input;
+  } else if (input instanceof Blob) {
+    // File or Blob input
+    content = input;
+    originalName = typeof File !== 'undefined' && input instanceof File ? input.name : undefined;
+  } else {
+    throw new ValidationError(
+      'Invalid file input. Expected File, Blob, Buffer, or file path string.'
+    );
+  }
+  validateFileSize(contentSize(content));
+
+  let mimeType = options.mimeType || (await detectMimeType(content, options.filename || originalName));
+  if (!mimeType) {
+    const supportedExtensions = Object.keys(MIME_TYPES).join(', ');
+    throw new ValidationError(
+      `Unsupported file content${originalName ? ` in ${originalName}` : ''}. Supported types: ${supportedExtensions}`
+    );
+  }
+  if (!Object.values(MIME_TYPES).includes(mimeType)) {
+    throw new ValidationError(`Unsupported MIME type: ${mimeType}`);
   }
 
-  // Buffer input (Node.js)
-  if (Buffer.isBuffer(input)) {
-    validateFileSize(input.length);
-    // For buffers, we need a filename - default to document.pdf
-    return bufferToFile(input, 'document.pdf');
+  let pages: number[] | undefined;
+  if (options.pages !== undefined) {
+    if (mimeType !== 'application/pdf') {
+      throw new ValidationError(`The pages option only applies to PDF documents, not ${mimeType}`);
+    }
+    const selected = await selectPdfPages(content, options.pages);
+    content = selected.content;
+    pages = selected.pages;
   }
 
-  // File input (has name property)
-  if (input instanceof File) {
-    validateFileExtension(input.name);
-    validateFileSize(input.size);
-    return input;
+  let converted = false;
+  if (options.preprocess && isImageMimeType(mimeType)) {
+    const image = await preprocessImage(
+      content,
+      mimeType,
+      options.preprocess === true ? {} : options.preprocess
+    );
+    converted = image.mimeType !== mimeType;
+    content = image.content;
+    mimeType = image.mimeType;
   }
+  validateFileSize(contentSize(content), mimeType);
+
+  // An explicit filename is kept unless preprocessing changed the format
+  const filename =
+    options.filename && !converted
+      ? options.filename
+      : withExtension(options.filename || originalName || 'document', mimeType);
 
-  // Blob input
-  if (input instanceof Blob) {
-    validateFileSize(input.size);
-    // For blobs without a name, we can't validate extension
-    // The API will validate the actual content
-    return input;
+  // Reuse File inputs that are already correctly labelled
+  if (
+    typeof File !== 'undefined' &&
+    input instanceof File &&
+    content === input &&
+    input.name === filename &&
+    input.type === mimeType
+  ) {
+    return { file: input, pages };
   }
 
-  throw new ValidationError(
-    'Invalid file input. Expected File, Blob, Buffer, or file path string.'
-  );
+  return { file: toUploadFile(content, filename, mimeType), pages };
+}
+
+/**
+ * Number of leading bytes inspected to detect the document type.
+ * Large enough to cover the first ZIP entries of DOCX and XLSX files.
+ * @internal
+ */
+const SNIFF_BYTES = 16384;
+
+/**
+ * Reads the first bytes of the content and detects its document type.
+ * @internal
+ */
+async function detectMimeType(
+  content: Blob | Buffer,
+  filename?: string
+): Promise<SupportedMimeType | null> {
+  const head =
+    content instanceof Blob
+      ? new Uint8Array(await content.slice(0, SNIFF_BYTES).arrayBuffer())
+      : new Uint8Array(content.buffer, content.byteOffset, Math.min(content.length, SNIFF_BYTES));
+  return sniffMimeType(head, filename);
+}
+
+function contentSize(content: Blob | Buffer): number {
+  return content instanceof Blob ? content.size : content.length;
 }
 
 /**
@@ -254,9 +704,144 @@ export function delay(ms: number): Promise<void> {
  * Calculates exponential backoff delay with jitter.
  * @internal
  */
-export function getBackoffDelay(attempt: number, baseDelay = 1000): number {
+export function getBackoffDelay(attempt: number, baseDelay = 1000, maxDelay = 30000): number {
   const exponentialDelay = baseDelay * Math.pow(2, attempt);
   const jitter = Math.random() * 0.1 * exponentialDelay;
-  return Math.min(exponentialDelay + jitter, 30000); // Cap at 30 seconds
+  return Math.min(exponentialDelay + jitter, maxDelay);
+}
+
+/**
+ * Parses a `Retry-After` header (delay in seconds or HTTP date) into milliseconds.
+ * Returns undefined if the header is missing or invalid.
+ * @internal
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
 }
 
+/**
+ * Generates a random idempotency key.
+ * Uses `crypto.randomUUID` when available.
+ * @internal
+ */
+export function generateIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+}
+
+
+/**
+ * Runs an async task over every item with at most `concurrency` tasks in flight.
+ * Tasks are started in input order; the task itself is responsible for handling errors.
+ * @internal
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+}
+
+/**
+ * Computes the SHA-256 hash of binary data as a lowercase hex string.
+ * Uses Node's crypto module when available, otherwise Web Crypto.
+ * @internal
+ */
+export async function sha256Hex(data: ArrayBuffer | Uint8Array): Promise<string> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  if (isNode()) {
+    const { createHash } = await import('crypto');
+    return createHash('sha256').update(bytes).digest('hex');
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Computes the SHA-256 hash of a Blob's contents as a lowercase hex string.
+ * In Node.js the bytes are streamed into the hash, so a file opened with `openAsBlob` is never
+ * held in memory whole; Web Crypto has no incremental digest, so browsers read the Blob at once.
+ * @internal
+ */
+export async function sha256HexOfBlob(blob: Blob): Promise<string> {
+  if (!isNode() || typeof blob.stream !== 'function') {
+    return sha256Hex(await blob.arrayBuffer());
+  }
+
+  const { createHash } = await import('crypto');
+  const hash = createHash('sha256');
+  const reader = blob.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    hash.update(value);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Computes the HMAC-SHA256 of a UTF-8 message as a lowercase hex string.
+ * Uses Node's crypto module when available, otherwise Web Crypto.
+ * @internal
+ */
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  if (isNode()) {
+    const { createHmac } = await import('crypto');
+    return createHmac('sha256', secret).update(message, 'utf8').digest('hex');
+  }
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Serializes JSON with sorted object keys, so equal schemas always hash the same.
+ * @internal
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,417 @@
+import type { z } from 'zod';
+import type { $ZodType } from 'zod/v4/core';
+import type {
+  ExtractResult,
+  FieldConfidence,
+  SchemaInput,
+  SchemaValidationIssue,
+  StandardSchemaV1Result,
+  ValidationMode,
+} from './types';
+import { SchemaValidationError, ValidationError } from './errors';
+import { isStandardSchema, isZod4Schema, isZodSchema } from './utils';
+
+/**
+ * Loose view of a Zod schema definition, used to walk schemas without a runtime zod import.
+ * Zod 4 definitions are normalized to this Zod 3 shape by `zodDef`.
+ * @internal
+ */
+export interface ZodDefLike {
+  typeName?: string;
+  innerType?: ZodSchema;
+  schema?: ZodSchema;
+  in?: ZodSchema;
+  out?: ZodSchema;
+  type?: ZodSchema;
+  valueType?: ZodSchema;
+  left?: ZodSchema;
+  right?: ZodSchema;
+  options?: ZodSchema[] | Map<unknown, ZodSchema>;
+  items?: ZodSchema[];
+  effect?: { type: 'refinement' | 'transform' | 'preprocess' };
+  shape?: () => Record<string, ZodSchema>;
+  getter?: () => ZodSchema;
+  /** Whether a Zod 4 schema carries `.refine()` checks, which Zod 4 stores on the schema itself. */
+  refined?: boolean;
+}
+
+/**
+ * A Zod 3 or Zod 4 schema.
+ * @internal
+ */
+export type ZodSchema = z.ZodTypeAny | $ZodType;
+
+/**
+ * Zod 3 type names for Zod 4 definition types.
+ */
+const ZOD4_TYPE_NAMES: Record<string, string> = {
+  string: 'ZodString',
+  number: 'ZodNumber',
+  boolean: 'ZodBoolean',
+  bigint: 'ZodBigInt',
+  symbol: 'ZodSymbol',
+  null: 'ZodNull',
+  undefined: 'ZodUndefined',
+  void: 'ZodVoid',
+  never: 'ZodNever',
+  any: 'ZodAny',
+  unknown: 'ZodUnknown',
+  custom: 'ZodAny',
+  date: 'ZodDate',
+  object: 'ZodObject',
+  record: 'ZodRecord',
+  array: 'ZodArray',
+  tuple: 'ZodTuple',
+  union: 'ZodUnion',
+  intersection: 'ZodIntersection',
+  map: 'ZodMap',
+  set: 'ZodSet',
+  enum: 'ZodEnum',
+  literal: 'ZodLiteral',
+  nullable: 'ZodNullable',
+  optional: 'ZodOptional',
+  nonoptional: 'ZodNonOptional',
+  default: 'ZodDefault',
+  prefault: 'ZodDefault',
+  catch: 'ZodCatch',
+  nan: 'ZodNaN',
+  pipe: 'ZodPipeline',
+  readonly: 'ZodReadonly',
+  promise: 'ZodPromise',
+  lazy: 'ZodLazy',
+  function: 'ZodFunction',
+  transform: 'ZodEffects',
+};
+
+/**
+ * Reads the definition of a Zod 3 or Zod 4 schema in the Zod 3 shape.
+ * @internal
+ */
+export function zodDef(schema: ZodSchema): ZodDefLike {
+  if (!isZod4Schema(schema)) {
+    return schema._def as ZodDefLike;
+  }
+
+  const def = schema._zod.def as unknown as Record<string, unknown>;
+  const type = def.type as string;
+  const shape = def.shape as Record<string, ZodSchema> | undefined;
+  const checks = (def.checks ?? []) as Array<{ _zod: { def: { check: string } } }>;
+
+  return {
+    typeName: ZOD4_TYPE_NAMES[type] ?? type,
+    innerType: def.innerType as ZodSchema | undefined,
+    in: def.in as ZodSchema | undefined,
+    out: def.out as ZodSchema | undefined,
+    type: (type === 'set' ? def.valueType : def.element) as ZodSchema | undefined,
+    valueType: def.valueType as ZodSchema | undefined,
+    left: def.left as ZodSchema | undefined,
+    right: def.right as ZodSchema | undefined,
+    options: def.options as ZodSchema[] | undefined,
+    items: def.items as ZodSchema[] | undefined,
+    effect: type === 'transform' ? { type: 'transform' } : undefined,
+    shape: shape ? () => shape : undefined,
+    getter: def.getter as (() => ZodSchema) | undefined,
+    refined: checks.some((check) => check._zod?.def?.check === 'custom'),
+  };
+}
+
+/**
+ * Converts Zod path segments to the JSON path format used by `FieldConfidence.field`.
+ * @internal
+ *
+ * @example
+ * ```ts
+ * toJsonPath(['line_items', 0, 'amount']); // "$.line_items[0].amount"
+ * ```
+ */
+export function toJsonPath(path: Array<string | number>): string {
+  return path.reduce<string>(
+    (acc, segment) => (typeof segment === 'number' ? `${acc}[${segment}]` : `${acc}.${segment}`),
+    '$'
+  );
+}
+
+/**
+ * Parses a number formatted for humans, such as `"1,250.00"`, `"1.250,00 €"` or `"$ -42"`.
+ * The last of `.`/`,` is treated as the decimal separator when both are present.
+ * Returns `null` if the value cannot be read as a number.
+ * @internal
+ */
+export function parseNumberLike(value: string): number | null {
+  const negative =
+    /^\s*\(.*\)\s*$/.test(value) || /^[^\d]*-/.test(value) || /-\s*$/.test(value);
+  let cleaned = value.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(cleaned)) return null;
+
+  const lastDot = cleaned.lastIndexOf('.');
+  const lastComma = cleaned.lastIndexOf(',');
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    // Both separators: whichever comes last is the decimal separator
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const thousands = decimal === '.' ? ',' : '.';
+    cleaned = cleaned.split(thousands).join('').replace(decimal, '.');
+  } else if (lastComma !== -1) {
+    // Only commas: a single comma followed by 1-2 digits is a decimal separator
+    const parts = cleaned.split(',');
+    cleaned =
+      parts.length === 2 && parts[1].length > 0 && parts[1].length <= 2
+        ? `${parts[0]}.${parts[1]}`
+        : parts.join('');
+  } else if (cleaned.split('.').length > 2) {
+    // Several dots can only be thousands separators
+    cleaned = cleaned.split('.').join('');
+  }
+
+  const parsed = Number(cleaned);
+  if (!Number.isFinite(parsed)) return null;
+  return negative ? -parsed : parsed;
+}
+
+/**
+ * Coerces primitive values in `value` towards the types expected by `schema`.
+ * Values that cannot be coerced are returned unchanged so Zod reports them.
+ * @internal
+ */
+export function coerceToSchema(schema: ZodSchema, value: unknown): unknown {
+  const def = zodDef(schema);
+
+  switch (def.typeName) {
+    case 'ZodOptional':
+      // The API reports missing optional fields as null, which `.optional()` rejects
+      return value === null || value === undefined
+        ? undefined
+        : coerceToSchema(def.innerType!, value);
+    case 'ZodNullable':
+    case 'ZodNonOptional':
+    case 'ZodDefault':
+    case 'ZodCatch':
+    case 'ZodReadonly':
+      return value === null || value === undefined
+        ? value
+        : coerceToSchema(def.innerType!, value);
+    case 'ZodBranded':
+      return coerceToSchema(def.type!, value);
+    case 'ZodEffects':
+      // Zod 4 transforms have no inner schema; their input is unknown
+      return def.schema ? coerceToSchema(def.schema, value) : value;
+    case 'ZodPipeline':
+      return coerceToSchema(def.in!, value);
+    case 'ZodLazy':
+      return coerceToSchema(def.getter!(), value);
+
+    case 'ZodObject': {
+      if (!isPlainObject(value)) return value;
+      const shape = def.shape!();
+      const result: Record<string, unknown> = { ...value };
+      for (const [key, fieldSchema] of Object.entries(shape)) {
+        if (key in result) {
+          result[key] = coerceToSchema(fieldSchema, result[key]);
+        }
+      }
+      return result;
+    }
+    case 'ZodArray':
+      return Array.isArray(value) ? value.map((item) => coerceToSchema(def.type!, item)) : value;
+    case 'ZodTuple':
+      return Array.isArray(value)
+        ? value.map((item, i) => (def.items![i] ? coerceToSchema(def.items![i], item) : item))
+        : value;
+    case 'ZodRecord':
+      if (!isPlainObject(value)) return value;
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, coerceToSchema(def.valueType!, item)])
+      );
+
+    case 'ZodNumber':
+      if (typeof value === 'string') {
+        return parseNumberLike(value) ?? value;
+      }
+      return value;
+    case 'ZodString':
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        return String(value);
+      }
+      return value;
+    case 'ZodBoolean':
+      if (typeof value === 'string') {
+        const normalized = value.trim().toLowerCase();
+        if (['true', 'yes', 'y', '1'].includes(normalized)) return true;
+        if (['false', 'no', 'n', '0'].includes(normalized)) return false;
+      }
+      return value;
+    case 'ZodDate':
+      if (typeof value === 'string' || typeof value === 'number') {
+        const date = new Date(value);
+        return Number.isNaN(date.getTime()) ? value : date;
+      }
+      return value;
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Replaces null with undefined for `.optional()` fields in `value`, leaving every other
+ * value as received. The API reports missing optional fields as null, which `.optional()` rejects.
+ * @internal
+ */
+export function dropOptionalNulls(schema: ZodSchema, value: unknown): unknown {
+  const def = zodDef(schema);
+
+  switch (def.typeName) {
+    case 'ZodOptional':
+      return value === null || value === undefined
+        ? undefined
+        : dropOptionalNulls(def.innerType!, value);
+    case 'ZodNullable':
+    case 'ZodNonOptional':
+    case 'ZodDefault':
+    case 'ZodCatch':
+    case 'ZodReadonly':
+      return value === null || value === undefined
+        ? value
+        : dropOptionalNulls(def.innerType!, value);
+    case 'ZodBranded':
+      return dropOptionalNulls(def.type!, value);
+    case 'ZodEffects':
+      return def.schema ? dropOptionalNulls(def.schema, value) : value;
+    case 'ZodPipeline':
+      return dropOptionalNulls(def.in!, value);
+    case 'ZodLazy':
+      return dropOptionalNulls(def.getter!(), value);
+
+    case 'ZodObject': {
+      if (!isPlainObject(value)) return value;
+      const result: Record<string, unknown> = { ...value };
+      for (const [key, fieldSchema] of Object.entries(def.shape!())) {
+        if (key in result) {
+          result[key] = dropOptionalNulls(fieldSchema, result[key]);
+        }
+      }
+      return result;
+    }
+    case 'ZodArray':
+      return Array.isArray(value) ? value.map((item) => dropOptionalNulls(def.type!, item)) : value;
+    case 'ZodTuple':
+      return Array.isArray(value)
+        ? value.map((item, i) => (def.items![i] ? dropOptionalNulls(def.items![i], item) : item))
+        : value;
+    case 'ZodRecord':
+      if (!isPlainObject(value)) return value;
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, dropOptionalNulls(def.valueType!, item)])
+      );
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Throws if `schema` cannot be used with validation `mode`.
+ * Called before uploading so misconfigured calls fail without consuming credits.
+ * @internal
+ */
+export function assertValidatable(schema: SchemaInput, mode: ValidationMode = 'off'): void {
+  if (mode === 'coerce' && !isZodSchema(schema)) {
+    throw new ValidationError(`validate: 'coerce' requires a Zod schema`);
+  }
+  if (mode === 'strict' && !isZodSchema(schema) && !isStandardSchema(schema)) {
+    throw new ValidationError(`validate: 'strict' requires a Zod or Standard Schema validator`);
+  }
+}
+
+/**
+ * Runs the caller's schema over an extraction result according to `mode`.
+ * Returns the result with the parsed output object, or throws `SchemaValidationError`.
+ * Results without an object (failed extractions) are returned unchanged.
+ * @internal
+ */
+export async function validateExtractResult<T>(
+  result: ExtractResult<T>,
+  schema: SchemaInput,
+  mode: ValidationMode = 'off'
+): Promise<ExtractResult<T>> {
+  assertValidatable(schema, mode);
+  if (mode === 'off' || result.error !== null) {
+    return result;
+  }
+
+  let input: unknown = result.object;
+  if (mode === 'coerce') {
+    input = coerceToSchema(schema as ZodSchema, input);
+  } else if (isZodSchema(schema)) {
+    input = dropOptionalNulls(schema as ZodSchema, input);
+  }
+  const parsed = await runValidator(schema, input);
+
+  if (!parsed.issues) {
+    return { ...result, object: parsed.value as T };
+  }
+
+  const issues = mapIssues(parsed.issues, result.metadata.field_confidence);
+  const summary = issues
+    .slice(0, 3)
+    .map((issue) => `${issue.field}: ${issue.message}`)
+    .join('; ');
+  const more = issues.length > 3 ? ` (and ${issues.length - 3} more)` : '';
+
+  throw new SchemaValidationError(
+    `Extracted object does not match the schema: ${summary}${more}`,
+    issues,
+    result
+  );
+}
+
+/**
+ * Validates a value with the Standard Schema interface, falling back to `safeParse`
+ * for Zod versions that predate it.
+ */
+async function runValidator(
+  schema: SchemaInput,
+  value: unknown
+): Promise<StandardSchemaV1Result<unknown>> {
+  if (isStandardSchema(schema)) {
+    return schema['~standard'].validate(value);
+  }
+
+  const parsed = (schema as z.ZodTypeAny).safeParse(value);
+  return parsed.success ? { value: parsed.data } : { issues: parsed.error.issues };
+}
+
+/**
+ * Maps validator issues to validation issues keyed by the JSON paths used in `field_confidence`.
+ * @internal
+ */
+function mapIssues(
+  validatorIssues: Exclude<StandardSchemaV1Result<unknown>['issues'], undefined>,
+  fieldConfidence: FieldConfidence[]
+): SchemaValidationIssue[] {
+  const confidenceByField = new Map(fieldConfidence.map((fc) => [fc.field, fc]));
+
+  return validatorIssues.map((issue) => {
+    // Standard Schema path segments are either keys or `{ key }` objects
+    const path = (issue.path ?? []).map((segment) => {
+      const key = typeof segment === 'object' && segment !== null ? segment.key : segment;
+      return typeof key === 'number' ? key : String(key);
+    });
+    const field = toJsonPath(path);
+    const mapped: SchemaValidationIssue = {
+      field,
+      path,
+      code: (issue as { code?: string }).code ?? 'custom',
+      message: issue.message,
+    };
+    const confidence = confidenceByField.get(field);
+    if (confidence) {
+      mapped.confidence = confidence;
+    }
+    return mapped;
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
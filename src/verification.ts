@@ -0,0 +1,459 @@
+import type {
+  ExtractResult,
+  Verification,
+  VerificationCheck,
+  VerificationStatus,
+} from './types';
+import { ValidationError } from './errors';
+import { parseNumberLike } from './validation';
+
+/**
+ * Default absolute tolerance for local verification checks.
+ */
+export const DEFAULT_VERIFICATION_TOLERANCE = 0.01;
+
+/**
+ * Context passed to a verification rule.
+ */
+export interface VerificationContext {
+  /** Absolute tolerance to use unless the rule defines its own. */
+  tolerance: number;
+}
+
+/**
+ * A local verification rule.
+ * Rules return one check per verified relation, or no checks when they do not apply
+ * (none of their fields are present in the object).
+ */
+export interface VerificationRule {
+  /** Check type reported in `VerificationCheck.type` (e.g. "HORIZONTAL_SUM"). */
+  type: string;
+  /** Evaluates the rule against an extracted object. */
+  evaluate(object: unknown, context: VerificationContext): VerificationCheck[];
+}
+
+/**
+ * Options for a custom rule created with `defineRule`.
+ */
+export interface CustomRuleOptions<K extends string> {
+  /** Check type reported in `VerificationCheck.type`. */
+  type: string;
+  /**
+   * Field path bindings, e.g. `{ tax: 'tax', base: 'subtotal', rate: 'tax_rate' }`.
+   * A path with a `[*]` wildcard (e.g. `payments[*].amount`) resolves to the sum of all matches.
+   */
+  fields: Record<K, string>;
+  /**
+   * Evaluate the rule once per element of this array path (e.g. `line_items`),
+   * with `fields` resolved relative to each element.
+   */
+  each?: string;
+  // Indexed access keeps `requires` from widening K (like `NoInfer`, which needs TypeScript 5.4)
+  /**
+   * Fields the rule needs to apply at all. When any of them is missing the rule is
+   * skipped instead of reporting `CANNOT_VERIFY` (e.g. no line items on a summary invoice).
+   */
+  requires?: Array<[K][K extends unknown ? 0 : never]>;
+  /** Absolute tolerance for this rule. Defaults to the verifier's tolerance. */
+  tolerance?: number;
+  /** Computes the expected and actual values from the resolved numbers. */
+  compute: (values: Record<K, number>) => { expected: number; actual: number };
+}
+
+/**
+ * Defines a custom verification rule from field bindings and a compute function.
+ *
+ * @example
+ * ```ts
+ * // sum of payments = amount paid
+ * const paymentsRule = defineRule({
+ *   type: 'PAYMENTS_SUM',
+ *   fields: { paid: 'amount_paid', payments: 'payments[*].amount' },
+ *   compute: ({ paid, payments }) => ({ expected: payments, actual: paid }),
+ * });
+ * ```
+ */
+export function defineRule<K extends string>(options: CustomRuleOptions<K>): VerificationRule {
+  const { type, fields, each, requires = [], tolerance, compute } = options;
+  const bindings = Object.entries(fields) as Array<[K, string]>;
+
+  const check = (scope: unknown, prefix: string, ruleContext: VerificationContext) => {
+    const resolved = bindings.map(([name, path]) => ({
+      name,
+      path: joinPath(prefix, path),
+      value: resolveNumber(scope, path),
+    }));
+
+    // The rule does not apply if none of its fields, or not all it requires, were extracted
+    if (
+      resolved.every((binding) => binding.value === undefined) ||
+      resolved.some((binding) => requires.includes(binding.name) && binding.value === undefined)
+    ) {
+      return null;
+    }
+
+    const fieldPaths = resolved.map((binding) => binding.path);
+    if (resolved.some((binding) => binding.value === undefined)) {
+      return cannotVerify(type, fieldPaths);
+    }
+
+    const values = Object.fromEntries(
+      resolved.map((binding) => [binding.name, binding.value])
+    ) as Record<K, number>;
+    const { expected, actual } = compute(values);
+    return compare(type, fieldPaths, expected, actual, tolerance ?? ruleContext.tolerance);
+  };
+
+  return {
+    type,
+    evaluate(object, context) {
+      if (!each) {
+        const result = check(object, '', context);
+        return result ? [result] : [];
+      }
+
+      const items = resolvePath(object, each)[0]?.value;
+      if (!Array.isArray(items)) {
+        return [];
+      }
+      return items
+        .map((item, index) => check(item, `${normalizePath(each)}[${index}]`, context))
+        .filter((result): result is VerificationCheck => result !== null);
+    },
+  };
+}
+
+/**
+ * Built-in verification rules. Default field names match the server-side rules and
+ * the schema conventions used in the Parsefy docs.
+ */
+export const rules = {
+  /**
+   * `total = subtotal + tax` (or any other list of parts).
+   */
+  horizontalSum(options: { total?: string; parts?: string[]; tolerance?: number } = {}) {
+    const { total = 'total', parts = ['subtotal', 'tax'], tolerance } = options;
+    const fields = Object.fromEntries([
+      ['total', total],
+      ...parts.map((part, i) => [`part${i}`, part]),
+    ]) as Record<string, string>;
+
+    return defineRule({
+      type: 'HORIZONTAL_SUM',
+      fields,
+      tolerance,
+      compute: (values) => ({
+        expected: parts.reduce((sum, _part, i) => sum + values[`part${i}`], 0),
+        actual: values.total,
+      }),
+    });
+  },
+
+  /**
+   * `subtotal = sum(line_items[*].amount)`. Skipped when there are no line item amounts.
+   */
+  verticalSum(options: { total?: string; items?: string; tolerance?: number } = {}) {
+    const { total = 'subtotal', items = 'line_items[*].amount', tolerance } = options;
+    return defineRule({
+      type: 'VERTICAL_SUM',
+      fields: { total, items },
+      requires: ['items'],
+      tolerance,
+      compute: (values) => ({ expected: values.items, actual: values.total }),
+    });
+  },
+
+  /**
+   * `line_items[i].amount = line_items[i].quantity × line_items[i].unit_price`, checked per line.
+   * Lines without a quantity and unit price are skipped.
+   */
+  lineItemProduct(
+    options: {
+      items?: string;
+      amount?: string;
+      quantity?: string;
+      unitPrice?: string;
+      tolerance?: number;
+    } = {}
+  ) {
+    const {
+      items = 'line_items',
+      amount = 'amount',
+      quantity = 'quantity',
+      unitPrice = 'unit_price',
+      tolerance,
+    } = options;
+    return defineRule({
+      type: 'LINE_ITEM_PRODUCT',
+      each: items,
+      fields: { amount, quantity, unitPrice },
+      requires: ['quantity', 'unitPrice'],
+      tolerance,
+      compute: (values) => ({
+        expected: values.quantity * values.unitPrice,
+        actual: values.amount,
+      }),
+    });
+  },
+
+  /**
+   * `tax = base × rate`. The rate can be a field path or a constant, always in percent
+   * (e.g. `19` for 19%, `0.5` for 0.5%), as in the built-in schemas and `normalizers.percentage()`.
+   * Skipped when the rate field is missing. Use `tolerance` for rounding.
+   */
+  taxRate(
+    options: { tax?: string; base?: string; rate?: string | number; tolerance?: number } = {}
+  ) {
+    const { tax = 'tax', base = 'subtotal', rate = 'tax_rate', tolerance } = options;
+
+    if (typeof rate === 'number') {
+      return defineRule({
+        type: 'TAX_RATE',
+        fields: { tax, base },
+        tolerance,
+        compute: (values) => ({ expected: (values.base * rate) / 100, actual: values.tax }),
+      });
+    }
+    return defineRule({
+      type: 'TAX_RATE',
+      fields: { tax, base, rate },
+      requires: ['rate'],
+      tolerance,
+      compute: (values) => ({
+        expected: (values.base * values.rate) / 100,
+        actual: values.tax,
+      }),
+    });
+  },
+
+  /**
+   * `amount_paid = sum(payments[*].amount)`. Skipped when there are no payments.
+   */
+  paymentsSum(options: { paid?: string; payments?: string; tolerance?: number } = {}) {
+    const { paid = 'amount_paid', payments = 'payments[*].amount', tolerance } = options;
+    return defineRule({
+      type: 'PAYMENTS_SUM',
+      fields: { paid, payments },
+      requires: ['payments'],
+      tolerance,
+      compute: (values) => ({ expected: values.payments, actual: values.paid }),
+    });
+  },
+};
+
+/**
+ * The rules applied by `verify` when none are given.
+ */
+export function defaultRules(): VerificationRule[] {
+  return [
+    rules.horizontalSum(),
+    rules.verticalSum(),
+    rules.lineItemProduct(),
+    rules.taxRate(),
+    rules.paymentsSum(),
+  ];
+}
+
+/**
+ * Runs verification rules locally over an extracted object.
+ * Produces a `Verification` in the same shape as the server's, so both can be merged.
+ *
+ * @example
+ * ```ts
+ * const verification = verify(result.object, [
+ *   ...defaultRules(),
+ *   rules.taxRate({ rate: 19, tolerance: 0.05 }),
+ * ]);
+ * ```
+ */
+export function verify(
+  object: unknown,
+  verificationRules: VerificationRule[] = defaultRules(),
+  options: { tolerance?: number } = {}
+): Verification {
+  const context: VerificationContext = {
+    tolerance: options.tolerance ?? DEFAULT_VERIFICATION_TOLERANCE,
+  };
+  const checks = object === null || object === undefined
+    ? []
+    : verificationRules.flatMap((rule) => rule.evaluate(object, context));
+  return summarize(checks);
+}
+
+/**
+ * Merges several verification reports (e.g. server and local) into one.
+ * Missing reports are ignored.
+ */
+export function mergeVerifications(
+  ...verifications: Array<Verification | undefined>
+): Verification {
+  return summarize(
+    verifications.flatMap((verification) => verification?.checks_run ?? [])
+  );
+}
+
+/**
+ * Runs local rules over an extraction result and merges them with the server's
+ * verification, returning a new result.
+ */
+export function verifyResult<T>(
+  result: ExtractResult<T>,
+  verificationRules: VerificationRule[] = defaultRules(),
+  options: { tolerance?: number } = {}
+): ExtractResult<T> {
+  const local = verify(result.object, verificationRules, options);
+  return { ...result, verification: mergeVerifications(result.verification, local) };
+}
+
+/**
+ * Builds a verification report from individual checks.
+ * @internal
+ */
+function summarize(checks: VerificationCheck[]): Verification {
+  const passed = checks.filter((check) => check.passed).length;
+  const cannotVerify = checks.filter((check) => check.status === 'CANNOT_VERIFY').length;
+  const failed = checks.length - passed - cannotVerify;
+
+  let status: VerificationStatus;
+  if (checks.length === 0) {
+    status = 'NO_RULES';
+  } else if (passed === checks.length) {
+    status = 'PASSED';
+  } else if (cannotVerify === checks.length) {
+    status = 'CANNOT_VERIFY';
+  } else if (failed === checks.length) {
+    status = 'FAILED';
+  } else {
+    status = 'PARTIAL';
+  }
+
+  return {
+    status,
+    checks_passed: passed,
+    checks_failed: failed,
+    cannot_verify_count: cannotVerify,
+    checks_run: checks,
+  };
+}
+
+function compare(
+  type: string,
+  fields: string[],
+  expected: number,
+  actual: number,
+  tolerance: number
+): VerificationCheck {
+  // Round away floating point noise so deltas read like the server's
+  const delta = Math.round((actual - expected) * 1e6) / 1e6;
+  const passed = Number.isFinite(delta) && Math.abs(delta) <= tolerance;
+  return {
+    type,
+    status: passed ? 'PASSED' : 'FAILED',
+    fields,
+    passed,
+    delta,
+    expected,
+    actual,
+  };
+}
+
+function cannotVerify(type: string, fields: string[]): VerificationCheck {
+  return {
+    type,
+    status: 'CANNOT_VERIFY',
+    fields,
+    passed: false,
+    delta: 0,
+    expected: 0,
+    actual: 0,
+  };
+}
+
+/**
+ * Resolves a path to a number. Wildcard paths resolve to the sum of their matches.
+ * Numeric strings such as "1,250.00" are accepted.
+ * @internal
+ */
+function resolveNumber(object: unknown, path: string): number | undefined {
+  const matches = resolvePath(object, path);
+  const numbers = matches.map((match) => toNumber(match.value));
+
+  if (path.includes('[*]')) {
+    if (numbers.length === 0 || numbers.some((n) => n === undefined)) return undefined;
+    return (numbers as number[]).reduce((sum, n) => sum + n, 0);
+  }
+  return numbers[0];
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') return parseNumberLike(value) ?? undefined;
+  return undefined;
+}
+
+/**
+ * Resolves a field path such as `vendor.total`, `$.line_items[0].amount` or
+ * `line_items[*].amount` to the matching values and their concrete paths.
+ * @internal
+ */
+export function resolvePath(
+  object: unknown,
+  path: string
+): Array<{ path: string; value: unknown }> {
+  const segments = parsePath(path);
+  let current: Array<{ path: string; value: unknown }> = [{ path: '', value: object }];
+
+  for (const segment of segments) {
+    const next: Array<{ path: string; value: unknown }> = [];
+    for (const { path: currentPath, value } of current) {
+      if (segment === '*') {
+        if (Array.isArray(value)) {
+          value.forEach((item, i) => next.push({ path: `${currentPath}[${i}]`, value: item }));
+        }
+      } else if (typeof segment === 'number') {
+        if (Array.isArray(value) && segment < value.length) {
+          next.push({ path: `${currentPath}[${segment}]`, value: value[segment] });
+        }
+      } else if (typeof value === 'object' && value !== null && segment in value) {
+        next.push({
+          path: currentPath ? `${currentPath}.${segment}` : segment,
+          value: (value as Record<string, unknown>)[segment],
+        });
+      }
+    }
+    current = next;
+  }
+
+  return current.filter((match) => match.value !== null && match.value !== undefined);
+}
+
+/**
+ * Splits a field path into property names, indices and `*` wildcards.
+ * @internal
+ */
+function parsePath(path: string): Array<string | number> {
+  const normalized = normalizePath(path);
+  if (!normalized) return [];
+
+  const segments: Array<string | number> = [];
+  for (const part of normalized.split('.')) {
+    const match = part.match(/^([^[\]]*)((?:\[(?:\d+|\*)\])*)$/);
+    if (!match) {
+      throw new ValidationError(`Invalid field path: ${path}`);
+    }
+    if (match[1]) segments.push(match[1]);
+    for (const [, index] of match[2].matchAll(/\[(\d+|\*)\]/g)) {
+      segments.push(index === '*' ? '*' : Number(index));
+    }
+  }
+  return segments;
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/^\$\.?/, '');
+}
+
+function joinPath(prefix: string, path: string): string {
+  const normalized = normalizePath(path);
+  return prefix ? `${prefix}.${normalized}` : normalized;
+}
@@ -0,0 +1,610 @@
+import type { Parsefy } from './client';
+import type { ExtractOptions, ExtractResult, InferSchema, SchemaInput } from './types';
+import { DEFAULT_BATCH_CONCURRENCY, DEFAULT_CONFIDENCE_THRESHOLD, MIME_TYPES } from './types';
+import {
+  APIError,
+  AuthenticationError,
+  ParsefyError,
+  SchemaAnalysisError,
+  SchemaValidationError,
+  ValidationError,
+} from './errors';
+import {
+  generateIdempotencyKey,
+  isNode,
+  loadSchemaConverter,
+  runWithConcurrency,
+  sha256Hex,
+  toJsonSchema,
+} from './utils';
+import { runPreflight } from './analyze';
+import { assertValidatable } from './validation';
+import { needsReview, type ReviewReasons } from './report';
+
+/**
+ * Where a document ends up after ingestion.
+ *
+ * - `'processed'`: extracted and accepted.
+ * - `'review'`: extracted, but fields are below the confidence threshold or verification checks failed.
+ * - `'failed'`: the document could not be extracted.
+ */
+export type WatchOutcome = 'processed' | 'review' | 'failed';
+
+/**
+ * Options for `watchFolder`. Accepts the same schema and extraction options as `extract`.
+ */
+export interface WatchFolderOptions<T extends SchemaInput>
+  extends Omit<ExtractOptions<T>, 'file' | 'filename' | 'idempotencyKey' | 'throwOnError'> {
+  /** Directory to watch. */
+  dir: string;
+  /**
+   * Glob patterns, relative to `dir`, of the files to ingest (`*`, `**`, `?` and `{a,b}`).
+   * Defaults to every file with a supported extension, in `dir` and its subdirectories.
+   */
+  include?: string | string[];
+  /** Glob patterns, relative to `dir`, of files to ignore. Hidden files are always ignored. */
+  exclude?: string | string[];
+  /** Directory for accepted documents. Defaults to `<dir>/processed`. */
+  processedDir?: string;
+  /** Directory for documents that need review. Defaults to `<dir>/review`. */
+  reviewDir?: string;
+  /** Directory for documents that could not be extracted. Defaults to `<dir>/failed`. */
+  failedDir?: string;
+  /**
+   * State file recording every document seen, so restarts never process one twice.
+   * Defaults to `<dir>/.parsefy-state.json`.
+   */
+  stateFile?: string;
+  /** Fields scored below this go to review. Defaults to `confidenceThreshold`, or 0.85. */
+  reviewThreshold?: number;
+  /** Delay between scans of `dir` in milliseconds. Defaults to 5000. */
+  pollInterval?: number;
+  /** Time a file must go unmodified before it is picked up, in milliseconds. Defaults to 2000. */
+  settleMs?: number;
+  /** Maximum number of documents extracted at the same time. Defaults to 3. */
+  concurrency?: number;
+  /** Called after each document is moved to its outcome directory. */
+  onDocument?: (event: WatchFolderEvent<InferSchema<T>>) => void;
+  /**
+   * Called when a document could not be extracted for a reason unrelated to the document
+   * (network, rate limit, authentication, budget). The file stays in place and is retried on
+   * the next scan with the same idempotency key.
+   */
+  onError?: (error: ParsefyError, file: string) => void;
+}
+
+/**
+ * A document that finished ingestion.
+ */
+export interface WatchFolderEvent<T> {
+  /** Path of the document when it was picked up. */
+  file: string;
+  /** Where the document went. */
+  outcome: WatchOutcome;
+  /** Path the document was moved to. */
+  destination: string;
+  /** Path of the JSON result sidecar, unless the document is a duplicate. */
+  sidecar?: string;
+  /** The extraction result, if extraction ran. */
+  result?: ExtractResult<T>;
+  /** Why the document needs review, for `'review'` outcomes. */
+  reasons?: ReviewReasons;
+  /** The error thrown while extracting, for `'failed'` outcomes. Extraction failures are in `result.error`. */
+  error?: ParsefyError;
+  /** Whether the same content was already ingested, in which case it was moved without extracting. */
+  duplicate: boolean;
+}
+
+/**
+ * Default folder polling policy.
+ */
+export const DEFAULT_WATCH_CONFIG = {
+  pollInterval: 5000,
+  settleMs: 2000,
+} as const;
+
+/**
+ * Ingestion state of one document, keyed by the SHA-256 hash of its content.
+ */
+interface StateEntry {
+  file: string;
+  idempotencyKey: string;
+  startedAt: string;
+  outcome?: WatchOutcome;
+  destination?: string;
+  finishedAt?: string;
+}
+
+interface WatchState {
+  version: 1;
+  documents: Record<string, StateEntry>;
+}
+
+/**
+ * Absolute paths used by a watcher.
+ */
+interface WatchDirectories {
+  dir: string;
+  processed: string;
+  review: string;
+  failed: string;
+  stateFile: string;
+}
+
+type NodeFs = typeof import('fs');
+type NodePath = typeof import('path');
+
+/**
+ * Watches a directory and ingests every new document (Node.js only).
+ *
+ * Each file matching `include` is extracted with `client.extract` once it has stopped changing.
+ * A JSON sidecar with the result is written next to the file, and the file is moved to the
+ * `processed`, `review` or `failed` directory. The directory is polled rather than watched
+ * with file system events, so shared folders and SFTP or network mounts work too.
+ *
+ * Documents are recorded by content hash in a state file, so nothing is extracted twice:
+ * after a restart, documents that were extracted but not yet moved are only moved, documents
+ * that were being extracted are retried with the same idempotency key, and files with the
+ * content of an earlier document are moved without extracting.
+ *
+ * @example
+ * ```ts
+ * const watcher = watchFolder(client, {
+ *   dir: '/mnt/sftp/invoices',
+ *   include: '**\/*.pdf',
+ *   schema: schemas.invoice,
+ *   enableVerification: true,
+ *   onDocument: ({ file, outcome }) => console.log(`${file} → ${outcome}`),
+ *   onError: (error, file) => console.warn(`Retrying ${file} later: ${error.message}`),
+ * });
+ *
+ * process.on('SIGTERM', () => watcher.stop());
+ * ```
+ */
+export function watchFolder<T extends SchemaInput>(
+  client: Parsefy,
+  options: WatchFolderOptions<T>
+): FolderWatcher<T> {
+  const watcher = new FolderWatcher(client, options);
+  watcher.start();
+  return watcher;
+}
+
+/**
+ * A running folder ingestion, returned by `watchFolder`.
+ * Create one with `new FolderWatcher(client, options)` and call `scan()` to ingest once, e.g. from a cron job.
+ */
+export class FolderWatcher<T extends SchemaInput> {
+  private readonly client: Parsefy;
+  private readonly options: WatchFolderOptions<T>;
+  private readonly extractOptions: Omit<
+    ExtractOptions<T>,
+    'file' | 'filename' | 'idempotencyKey' | 'preflight'
+  >;
+  private readonly include: RegExp[];
+  private readonly exclude: RegExp[];
+  private readonly pollInterval: number;
+  private readonly settleMs: number;
+  private readonly concurrency: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private scanning: Promise<WatchFolderEvent<InferSchema<T>>[]> | null = null;
+  private state: WatchState | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private schemaChecked = false;
+
+  constructor(client: Parsefy, options: WatchFolderOptions<T>) {
+    if (!isNode()) {
+      throw new ValidationError('watchFolder is only supported in Node.js');
+    }
+    const {
+      dir,
+      include,
+      exclude = [],
+      processedDir: _processedDir,
+      reviewDir: _reviewDir,
+      failedDir: _failedDir,
+      stateFile: _stateFile,
+      reviewThreshold: _reviewThreshold,
+      pollInterval = DEFAULT_WATCH_CONFIG.pollInterval,
+      settleMs = DEFAULT_WATCH_CONFIG.settleMs,
+      concurrency = DEFAULT_BATCH_CONCURRENCY,
+      onDocument: _onDocument,
+      onError: _onError,
+      preflight: _preflight,
+      ...extractOptions
+    } = options;
+    if (!dir) {
+      throw new ValidationError('dir is required');
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new ValidationError('concurrency must be a positive integer');
+    }
+    assertValidatable(extractOptions.schema, extractOptions.validate);
+
+    this.client = client;
+    this.options = options;
+    this.extractOptions = extractOptions;
+    this.pollInterval = pollInterval;
+    this.settleMs = settleMs;
+    this.concurrency = concurrency;
+    const extensions = Object.keys(MIME_TYPES).map((ext) => ext.slice(1));
+    this.include = [include ?? `**/*.{${extensions.join(',')}}`].flat().map(globToRegExp);
+    this.exclude = [exclude].flat().map(globToRegExp);
+  }
+
+  /**
+   * Starts scanning `dir` every `pollInterval` milliseconds. Called by `watchFolder`.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    const tick = async () => {
+      await this.scan().catch((error) => this.reportError(error, this.options.dir));
+      if (this.running) {
+        this.timer = setTimeout(tick, this.pollInterval);
+      }
+    };
+    void tick();
+  }
+
+  /**
+   * Stops scanning and waits for the documents being extracted to finish.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.scanning?.catch(() => undefined);
+  }
+
+  /**
+   * Scans `dir` once and ingests every settled document. Concurrent calls share one scan.
+   *
+   * @returns One event per document that finished ingestion during this scan.
+   */
+  scan(): Promise<WatchFolderEvent<InferSchema<T>>[]> {
+    this.scanning ??= this.runScan().finally(() => {
+      this.scanning = null;
+    });
+    return this.scanning;
+  }
+
+  private async runScan(): Promise<WatchFolderEvent<InferSchema<T>>[]> {
+    const fs = await import('fs');
+    const path = await import('path');
+    const dirs = this.directories(path);
+    await this.checkSchema();
+    this.state ??= await readState(fs, dirs.stateFile);
+
+    const files = await this.listSettledFiles(fs, path, dirs);
+    const events: WatchFolderEvent<InferSchema<T>>[] = [];
+    await runWithConcurrency(files, this.concurrency, async (file) => {
+      try {
+        events.push(await this.ingest(fs, path, dirs, file));
+      } catch (error) {
+        this.reportError(error, file);
+      }
+    });
+    return events;
+  }
+
+  /**
+   * Converts the schema and runs the pre-flight check once, before the first document, so a
+   * schema error is reported for the watcher instead of failing every document.
+   */
+  private async checkSchema(): Promise<void> {
+    if (this.schemaChecked) return;
+    const { schema, jsonSchema, preflight } = this.options;
+    await loadSchemaConverter(schema);
+    runPreflight(schema, preflight, jsonSchema);
+    toJsonSchema(schema, jsonSchema);
+    this.schemaChecked = true;
+  }
+
+  /**
+   * Extracts one document, writes its sidecar and moves it to its outcome directory.
+   * Throws for errors unrelated to the document, leaving the file in place.
+   */
+  private async ingest(
+    fs: NodeFs,
+    path: NodePath,
+    dirs: WatchDirectories,
+    file: string
+  ): Promise<WatchFolderEvent<InferSchema<T>>> {
+    const state = this.state!;
+    const relative = path.relative(dirs.dir, file);
+    const hash = await sha256Hex(await fs.promises.readFile(file));
+    const known = state.documents[hash];
+
+    const { reviewThreshold, onDocument } = this.options;
+
+    // Extracted before: finish an interrupted move, or move a duplicate without extracting
+    if (known?.outcome) {
+      const resumed =
+        known.file === relative && known.destination && !(await exists(fs, known.destination));
+      const destination = await moveFile(
+        fs,
+        path,
+        file,
+        resumed ? known.destination! : path.join(dirs[known.outcome], relative)
+      );
+      const event: WatchFolderEvent<InferSchema<T>> = {
+        file,
+        outcome: known.outcome,
+        destination,
+        duplicate: !resumed,
+      };
+      if (resumed) event.sidecar = `${destination}.json`;
+      onDocument?.(event);
+      return event;
+    }
+
+    // Record the attempt first, so a retry after a crash reuses the idempotency key
+    const entry: StateEntry = known ?? {
+      file: relative,
+      idempotencyKey: generateIdempotencyKey(),
+      startedAt: new Date().toISOString(),
+    };
+    state.documents[hash] = entry;
+    await this.saveState(fs, path, dirs.stateFile);
+
+    const { extractOptions } = this;
+    let result: ExtractResult<InferSchema<T>> | undefined;
+    let error: ParsefyError | undefined;
+    try {
+      result = await this.client.extract({
+        ...extractOptions,
+        file,
+        idempotencyKey: entry.idempotencyKey,
+      });
+    } catch (thrown) {
+      if (!isDocumentError(thrown)) throw thrown;
+      error = thrown;
+    }
+
+    let outcome: WatchOutcome = 'failed';
+    let reasons: ReviewReasons | undefined;
+    if (result && result.error === null) {
+      const review = needsReview(
+        result,
+        reviewThreshold ?? extractOptions.confidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD
+      );
+      // Fallback usage alone does not need review
+      if (review && (review.lowConfidence.length > 0 || review.failedChecks.length > 0)) {
+        outcome = 'review';
+        reasons = review;
+      } else {
+        outcome = 'processed';
+      }
+    }
+
+    // Sidecar first, then state, then the move: every step can be resumed after a crash
+    const target = await uniquePath(fs, path, path.join(dirs[outcome], relative));
+    const sidecar = `${target}.json`;
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await writeFileAtomic(
+      fs,
+      sidecar,
+      JSON.stringify(
+        {
+          source: relative,
+          outcome,
+          processedAt: new Date().toISOString(),
+          reasons: reasons ?? null,
+          result: result ?? null,
+          error: error ? { name: error.name, code: error.code ?? null, message: error.message } : null,
+        },
+        null,
+        2
+      )
+    );
+
+    entry.outcome = outcome;
+    entry.destination = target;
+    entry.finishedAt = new Date().toISOString();
+    await this.saveState(fs, path, dirs.stateFile);
+    const destination = await moveFile(fs, path, file, target);
+
+    const event: WatchFolderEvent<InferSchema<T>> = {
+      file,
+      outcome,
+      destination,
+      sidecar,
+      duplicate: false,
+    };
+    if (result) event.result = result;
+    if (reasons) event.reasons = reasons;
+    if (error) event.error = error;
+    onDocument?.(event);
+    return event;
+  }
+
+  /**
+   * Lists the files to ingest: matching `include` but not `exclude`, not hidden, outside the
+   * outcome directories, and unmodified for `settleMs`.
+   */
+  private async listSettledFiles(
+    fs: NodeFs,
+    path: NodePath,
+    dirs: WatchDirectories
+  ): Promise<string[]> {
+    const skip = new Set([dirs.processed, dirs.review, dirs.failed]);
+    const files: string[] = [];
+
+    const walk = async (current: string): Promise<void> => {
+      const entries = await fs.promises.readdir(current, { withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.name.startsWith('.')) continue;
+        const full = path.join(current, entry.name);
+        if (entry.isDirectory()) {
+          if (!skip.has(full)) await walk(full);
+          continue;
+        }
+        if (!entry.isFile()) continue;
+
+        const relative = path.relative(dirs.dir, full).split(path.sep).join('/');
+        if (!this.include.some((glob) => glob.test(relative))) continue;
+        if (this.exclude.some((glob) => glob.test(relative))) continue;
+
+        // Files still being written (e.g. an SFTP upload in progress) are picked up on a later scan
+        const stats = await fs.promises.stat(full).catch(() => null);
+        if (stats && Date.now() - stats.mtimeMs >= this.settleMs) {
+          files.push(full);
+        }
+      }
+    };
+
+    await walk(dirs.dir);
+    return files.sort();
+  }
+
+  private directories(path: NodePath): WatchDirectories {
+    const dir = path.resolve(this.options.dir);
+    return {
+      dir,
+      processed: path.resolve(this.options.processedDir ?? path.join(dir, 'processed')),
+      review: path.resolve(this.options.reviewDir ?? path.join(dir, 'review')),
+      failed: path.resolve(this.options.failedDir ?? path.join(dir, 'failed')),
+      stateFile: path.resolve(this.options.stateFile ?? path.join(dir, '.parsefy-state.json')),
+    };
+  }
+
+  /**
+   * Writes the state file. Writes are queued so concurrent documents never interleave them.
+   */
+  private saveState(fs: NodeFs, path: NodePath, file: string): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => writeState(fs, path, file, this.state!));
+    return this.saving;
+  }
+
+  private reportError(error: unknown, file: string): void {
+    const wrapped =
+      error instanceof ParsefyError
+        ? error
+        : new ParsefyError(
+            `Unexpected error: ${error instanceof Error ? error.message : String(error)}`,
+            'UNKNOWN_ERROR'
+          );
+    this.options.onError?.(wrapped, file);
+  }
+}
+
+/**
+ * Whether an error is caused by the document itself, so retrying cannot help.
+ * Authentication, rate limits, server errors, budgets, schema setup errors and missing
+ * optional packages are not.
+ */
+function isDocumentError(error: unknown): error is ParsefyError {
+  if (error instanceof SchemaAnalysisError) return false;
+  if (error instanceof ValidationError && error.code === 'MISSING_DEPENDENCY') return false;
+  if (error instanceof SchemaValidationError || error instanceof ValidationError) return true;
+  return (
+    error instanceof APIError &&
+    !(error instanceof AuthenticationError) &&
+    error.statusCode >= 400 &&
+    error.statusCode < 500 &&
+    ![408, 409, 429].includes(error.statusCode)
+  );
+}
+
+async function readState(fs: NodeFs, file: string): Promise<WatchState> {
+  try {
+    const state = JSON.parse(await fs.promises.readFile(file, 'utf8')) as WatchState;
+    if (state.version === 1 && state.documents) return state;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw new ValidationError(
+        `Cannot read the state file ${file}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  return { version: 1, documents: {} };
+}
+
+async function writeState(fs: NodeFs, path: NodePath, file: string, state: WatchState): Promise<void> {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await writeFileAtomic(fs, file, JSON.stringify(state));
+}
+
+/**
+ * Writes then renames, so a crash never leaves a truncated file behind.
+ */
+async function writeFileAtomic(fs: NodeFs, file: string, content: string): Promise<void> {
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tmp, content);
+  await fs.promises.rename(tmp, file);
+}
+
+/**
+ * Moves a file to a free path next to `target`, copying when it is on another device.
+ */
+async function moveFile(fs: NodeFs, path: NodePath, source: string, target: string): Promise<string> {
+  const destination = await uniquePath(fs, path, target);
+  await fs.promises.mkdir(path.dirname(destination), { recursive: true });
+  try {
+    await fs.promises.rename(source, destination);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+    await fs.promises.copyFile(source, destination);
+    await fs.promises.rm(source);
+  }
+  return destination;
+}
+
+/**
+ * Returns `target`, or `name-2.ext`, `name-3.ext`... if it is taken.
+ */
+async function uniquePath(fs: NodeFs, path: NodePath, target: string): Promise<string> {
+  const { dir, name, ext } = path.parse(target);
+  let candidate = target;
+  for (let i = 2; await exists(fs, candidate); i++) {
+    candidate = path.join(dir, `${name}-${i}${ext}`);
+  }
+  return candidate;
+}
+
+async function exists(fs: NodeFs, file: string): Promise<boolean> {
+  return fs.promises.access(file).then(
+    () => true,
+    () => false
+  );
+}
+
+/**
+ * Converts a glob to a regular expression matching `/`-separated relative paths.
+ * Supports `*`, `**`, `?` and `{a,b}`; matching is case-insensitive.
+ * @internal
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches any number of directories, including none
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
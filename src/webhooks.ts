@@ -0,0 +1,128 @@
+import type { RawWebhookEvent, VerifyWebhookOptions, WebhookEvent } from './types';
+import { ResponseParseError, ValidationError, WebhookVerificationError } from './errors';
+import { hmacSha256Hex } from './utils';
+import { transformJob } from './jobs';
+
+/**
+ * Name of the HTTP header carrying the webhook signature.
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'Parsefy-Signature';
+
+/**
+ * Default maximum age of a webhook signature in seconds.
+ */
+export const DEFAULT_WEBHOOK_TOLERANCE = 300;
+
+/**
+ * Authenticates a job webhook and parses it into a typed event.
+ *
+ * The `Parsefy-Signature` header has the form `t=<unix seconds>,v1=<hex>`, where the
+ * signature is the HMAC-SHA256 of `<t>.<raw body>` keyed with your webhook secret.
+ * Several `v1` entries may be present while a secret is being rotated.
+ *
+ * Pass the raw request body exactly as received: re-serialized JSON will not verify.
+ *
+ * @param payload - The raw request body.
+ * @param signature - Value of the `Parsefy-Signature` header.
+ * @param secret - Your webhook signing secret.
+ * @throws WebhookVerificationError if the signature is missing, invalid or too old.
+ *
+ * @example
+ * ```ts
+ * app.post('/parsefy-webhook', express.raw({ type: 'application/json' }), async (req, res) => {
+ *   const event = await verifyWebhook<Invoice>(
+ *     req.body,
+ *     req.get(WEBHOOK_SIGNATURE_HEADER),
+ *     process.env.PARSEFY_WEBHOOK_SECRET!
+ *   );
+ *   if (event.type === 'job.completed') {
+ *     await save(event.job.id, event.job.result?.object);
+ *   }
+ *   res.sendStatus(204);
+ * });
+ * ```
+ */
+export async function verifyWebhook<T = Record<string, unknown>>(
+  payload: string | Uint8Array,
+  signature: string | null | undefined,
+  secret: string,
+  options: VerifyWebhookOptions = {}
+): Promise<WebhookEvent<T>> {
+  const { tolerance = DEFAULT_WEBHOOK_TOLERANCE } = options;
+  if (!secret) {
+    throw new ValidationError('Webhook secret is required');
+  }
+
+  const parsed = parseSignatureHeader(signature);
+  if (!parsed) {
+    throw new WebhookVerificationError(`Missing or malformed ${WEBHOOK_SIGNATURE_HEADER} header`);
+  }
+  if (Math.abs(Date.now() / 1000 - parsed.timestamp) > tolerance) {
+    throw new WebhookVerificationError(
+      `Webhook timestamp is more than ${tolerance} seconds old or in the future`
+    );
+  }
+
+  const body = typeof payload === 'string' ? payload : new TextDecoder().decode(payload);
+  const expected = await hmacSha256Hex(secret, `${parsed.timestamp}.${body}`);
+  if (!parsed.signatures.some((candidate) => timingSafeEqual(candidate, expected))) {
+    throw new WebhookVerificationError('Webhook signature does not match the payload');
+  }
+
+  let raw: RawWebhookEvent;
+  try {
+    raw = JSON.parse(body);
+  } catch {
+    throw new ResponseParseError('Webhook payload is not valid JSON');
+  }
+
+  return {
+    id: raw.id,
+    type: raw.type,
+    createdAt: raw.created_at,
+    job: transformJob<T>(raw.data),
+  };
+}
+
+/**
+ * Computes the signature header for a webhook payload.
+ * @internal
+ */
+export async function computeWebhookSignature(
+  payload: string,
+  secret: string,
+  timestamp: number
+): Promise<string> {
+  return `t=${timestamp},v1=${await hmacSha256Hex(secret, `${timestamp}.${payload}`)}`;
+}
+
+function parseSignatureHeader(
+  header: string | null | undefined
+): { timestamp: number; signatures: string[] } | null {
+  if (!header) return null;
+
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't' && value && /^\d+$/.test(value)) {
+      timestamp = Number(value);
+    } else if (key === 'v1' && value) {
+      signatures.push(value.toLowerCase());
+    }
+  }
+
+  return timestamp !== undefined && signatures.length > 0 ? { timestamp, signatures } : null;
+}
+
+/**
+ * Compares two strings in time independent of where they differ.
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
@@ -1,17 +1,34 @@
 import { defineConfig } from 'tsup';
 
-export default defineConfig({
-  entry: ['src/index.ts'],
-  format: ['cjs', 'esm'],
-  outExtension({ format }) {
-    return {
-      js: format === 'cjs' ? '.cjs' : '.mjs',
-    };
+export default defineConfig([
+  {
+    entry: ['src/index.ts'],
+    format: ['cjs', 'esm'],
+    outExtension({ format }) {
+      return {
+        js: format === 'cjs' ? '.cjs' : '.mjs',
+      };
+    },
+    dts: true,
+    clean: true,
+    sourcemap: false,
+    minify: true,
+    splitting: false,
+    treeshake: true,
   },
-  dts: true,
-  clean: true,
-  sourcemap: false,
-  minify: true,
-  splitting: false,
-  treeshake: true,
-});
+  {
+    // Command-line tool (Node.js only). ESM so schema modules can be loaded with import().
+    entry: ['src/cli.ts'],
+    format: ['esm'],
+    platform: 'node',
+    outExtension() {
+      return { js: '.mjs' };
+    },
+    dts: false,
+    clean: false,
+    sourcemap: false,
+    minify: true,
+    splitting: false,
+    treeshake: true,
+  },
+]);